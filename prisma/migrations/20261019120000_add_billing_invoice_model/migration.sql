@@ -0,0 +1,11 @@
+-- CreateSchema
+CREATE SCHEMA IF NOT EXISTS "billing";
+
+-- CreateTable
+CREATE TABLE "billing"."Invoice" (
+    "id" SERIAL NOT NULL,
+    "amount" INTEGER NOT NULL DEFAULT 0,
+    "email" TEXT NOT NULL,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
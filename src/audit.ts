@@ -0,0 +1,298 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import logger from "debug";
+import difference from "lodash/difference";
+import { escapeLiteral } from "./escape";
+import { getRuntimeDataModel, getTableName } from "./expressions";
+import { takeLock } from "./lock";
+import { getTableSchemas, qualifyModelTable, qualifyTable } from "./schemas";
+
+const debug = logger("yates");
+
+const AUDIT_TRIGGER_NAME = "yates_audit";
+
+export interface AuditOptions<
+	ContextKeys extends string = string,
+	YModels extends Prisma.ModelName = Prisma.ModelName,
+> {
+	/** The models that should have their writes recorded in the audit log */
+	models: YModels[];
+	/** The context keys that should be recorded with each event, e.g. 'user.id' */
+	contextKeys?: ContextKeys[];
+}
+
+/** "BYPASS" events are recorded when a bypass account with `audit` enabled skips RLS */
+export type AuditOperation = "INSERT" | "UPDATE" | "DELETE" | "BYPASS";
+
+export interface AuditLogEntry {
+	id: number;
+	/** The table that was written to */
+	table: string;
+	/** The schema of the table, `null` for bypasses without a model and events recorded by older versions of Yates */
+	schema: string | null;
+	operation: AuditOperation;
+	/** The row before the write, `null` for inserts */
+	before: Prisma.JsonValue | null;
+	/** The row after the write, `null` for deletes */
+	after: Prisma.JsonValue | null;
+	/** The Yates role that made the write, `null` if RLS was bypassed with a `null` context */
+	role: string | null;
+	/** The PG role that made the write */
+	pgRole: string;
+	/** The values of the recorded context keys at the time of the write */
+	context: Record<string, string | null>;
+	createdAt: Date;
+}
+
+export interface AuditLogQuery {
+	/** Only return events for this model */
+	model?: Prisma.ModelName;
+	operation?: AuditOperation;
+	/** Only return events made by this Yates role */
+	role?: string;
+	/** Only return events where the recorded context matches these values */
+	context?: Record<string, string>;
+	/** Only return events created after this date */
+	since?: Date;
+	/** The maximum number of events to return, newest first. The default value is 100. */
+	limit?: number;
+}
+
+interface PgAuditLogEntry {
+	id: bigint;
+	table_name: string;
+	schema_name: string | null;
+	operation: AuditOperation;
+	row_before: Prisma.JsonValue | null;
+	row_after: Prisma.JsonValue | null;
+	role: string | null;
+	pg_role: string;
+	context: Record<string, string | null>;
+	created_at: Date;
+}
+
+// Creates the audit log table, if it doesn't already exist
+const createAuditLogTable = (prisma: PrismaClient) => [
+	prisma.$executeRawUnsafe(`
+	CREATE SCHEMA IF NOT EXISTS _yates;
+	`),
+	prisma.$executeRawUnsafe(`
+	CREATE TABLE IF NOT EXISTS _yates.audit_log (
+		id BIGSERIAL PRIMARY KEY,
+		table_name TEXT NOT NULL,
+		schema_name TEXT,
+		operation TEXT NOT NULL,
+		row_before JSONB,
+		row_after JSONB,
+		role TEXT,
+		pg_role TEXT NOT NULL,
+		context JSONB NOT NULL DEFAULT '{}'::jsonb,
+		created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+	);
+	`),
+	// Audit log tables created by older versions of Yates don't have the schema column
+	prisma.$executeRawUnsafe(`
+	ALTER TABLE _yates.audit_log ADD COLUMN IF NOT EXISTS schema_name TEXT;
+	`),
+];
+
+export const setupAuditTable = (prisma: PrismaClient) =>
+	prisma.$transaction([takeLock(prisma), ...createAuditLogTable(prisma)]);
+
+/**
+ * Creates the audit log table and installs a trigger on each audited model that records every insert, update and delete.
+ * The trigger function is a SECURITY DEFINER function, so that writes made by Yates roles can be recorded
+ * without granting those roles access to the audit log.
+ */
+export const setupAudit = async (
+	prisma: PrismaClient,
+	{ models, contextKeys = [] }: AuditOptions,
+) => {
+	for (const key of contextKeys) {
+		if (!key.match(/^[a-z_\.]+$/)) {
+			throw new Error(
+				`Audit context key "${key}" contains invalid characters. Context variables must only contain lowercase letters, numbers, periods and underscores.`,
+			);
+		}
+	}
+
+	const runtimeDataModel = getRuntimeDataModel(prisma);
+	for (const model of models) {
+		if (!runtimeDataModel.models[model]) {
+			throw new Error(`Invalid model in audit options: ${model}`);
+		}
+	}
+
+	const tableSchemas = await getTableSchemas(prisma);
+	const tables = models.map((model) =>
+		qualifyModelTable(runtimeDataModel, model, tableSchemas),
+	);
+
+	debug("Setting up audit log for", tables.join(", "));
+
+	await prisma.$transaction([
+		takeLock(prisma),
+		...createAuditLogTable(prisma),
+		// The Yates role is read from the "yates.role" setting that the client sets for every transaction.
+		// The context keys to record are passed to the trigger function as arguments.
+		prisma.$executeRawUnsafe(`
+		CREATE OR REPLACE FUNCTION _yates.audit_trigger() RETURNS trigger
+		LANGUAGE plpgsql SECURITY DEFINER SET search_path = pg_catalog, pg_temp AS $$
+		DECLARE
+			ctx JSONB := '{}'::jsonb;
+			i INTEGER;
+		BEGIN
+			FOR i IN 0 .. TG_NARGS - 1 LOOP
+				ctx := ctx || jsonb_build_object(TG_ARGV[i], current_setting(TG_ARGV[i], true));
+			END LOOP;
+
+			INSERT INTO _yates.audit_log (table_name, schema_name, operation, row_before, row_after, role, pg_role, context)
+			VALUES (
+				TG_TABLE_NAME,
+				TG_TABLE_SCHEMA,
+				TG_OP,
+				CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+				CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END,
+				NULLIF(current_setting('yates.role', true), ''),
+				current_setting('role'),
+				ctx
+			);
+
+			RETURN NULL;
+		END;
+		$$;
+		`),
+	]);
+
+	const triggerArgs = contextKeys.map(escapeLiteral).join(", ");
+
+	const existingTriggers: Array<{ table_name: string; schema_name: string }> =
+		await prisma.$queryRawUnsafe(`
+		SELECT c.relname AS table_name, n.nspname AS schema_name
+		FROM pg_catalog.pg_trigger t
+		JOIN pg_catalog.pg_class c ON c.oid = t.tgrelid
+		JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+		WHERE t.tgname = '${AUDIT_TRIGGER_NAME}'
+	`);
+
+	// Remove the trigger from any tables that are no longer audited
+	const removedTables = difference(
+		existingTriggers.map(({ table_name, schema_name }) =>
+			qualifyTable(table_name, schema_name),
+		),
+		tables,
+	);
+
+	await prisma.$transaction([
+		takeLock(prisma),
+		...removedTables.map((table) =>
+			prisma.$executeRawUnsafe(
+				`DROP TRIGGER IF EXISTS ${AUDIT_TRIGGER_NAME} ON ${table};`,
+			),
+		),
+		// Triggers are recreated on every setup, so that changes to the recorded context keys are applied
+		...tables.flatMap((table) => [
+			prisma.$executeRawUnsafe(
+				`DROP TRIGGER IF EXISTS ${AUDIT_TRIGGER_NAME} ON ${table};`,
+			),
+			prisma.$executeRawUnsafe(`
+			CREATE TRIGGER ${AUDIT_TRIGGER_NAME}
+			AFTER INSERT OR UPDATE OR DELETE ON ${table}
+			FOR EACH ROW EXECUTE FUNCTION _yates.audit_trigger(${triggerArgs});
+			`),
+		]),
+	]);
+};
+
+/**
+ * Records that a bypass account skipped RLS. The Prisma operation and the reason for the bypass are stored in the `after` column.
+ */
+export const recordBypass = async (
+	prisma: PrismaClient,
+	{
+		model,
+		operation,
+		schema,
+		role,
+		reason,
+	}: {
+		model?: string;
+		schema?: string;
+		operation: string;
+		role: string;
+		reason: string;
+	},
+) => {
+	const table = model ? getTableName(getRuntimeDataModel(prisma), model) : "";
+	const details = JSON.stringify({ operation, reason });
+
+	await prisma.$executeRaw`
+		INSERT INTO _yates.audit_log (table_name, schema_name, operation, row_after, role, pg_role)
+		VALUES (${table}, ${schema ?? null}, 'BYPASS', ${details}::jsonb, ${role}, current_user)
+	`;
+};
+
+/**
+ * Queries the audit log with the given transaction client, newest events first.
+ * The Prisma client is only used to look up the tables of the models.
+ */
+export const selectAuditLog = async (
+	prisma: PrismaClient,
+	tx: Prisma.TransactionClient,
+	query: AuditLogQuery = {},
+): Promise<AuditLogEntry[]> => {
+	const { model, operation, role, context, since, limit = 100 } = query;
+
+	const conditions: Prisma.Sql[] = [];
+	if (model) {
+		const schema = (await getTableSchemas(prisma))[model];
+		// Events recorded by older versions of Yates have no schema, so they are matched by table name alone
+		conditions.push(
+			Prisma.sql`table_name = ${getTableName(
+				getRuntimeDataModel(prisma),
+				model,
+			)} AND (schema_name = ${schema} OR schema_name IS NULL)`,
+		);
+	}
+	if (operation) {
+		conditions.push(Prisma.sql`operation = ${operation}`);
+	}
+	if (role) {
+		conditions.push(Prisma.sql`role = ${role}`);
+	}
+	if (context) {
+		conditions.push(Prisma.sql`context @> ${JSON.stringify(context)}::jsonb`);
+	}
+	if (since) {
+		conditions.push(Prisma.sql`created_at > ${since}`);
+	}
+
+	const where = conditions.length
+		? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+		: Prisma.empty;
+
+	const rows = await tx.$queryRaw<PgAuditLogEntry[]>`
+		SELECT * FROM _yates.audit_log ${where} ORDER BY id DESC LIMIT ${limit}
+	`;
+
+	return rows.map((row) => ({
+		id: Number(row.id),
+		table: row.table_name,
+		schema: row.schema_name,
+		operation: row.operation,
+		before: row.row_before,
+		after: row.row_after,
+		role: row.role,
+		pgRole: row.pg_role,
+		context: row.context,
+		createdAt: row.created_at,
+	}));
+};
+
+/**
+ * Queries the audit log, newest events first.
+ * The audit log isn't protected by RLS, so this must be called with the base Prisma client, and only from admin code.
+ */
+export const queryAuditLog = (
+	prisma: PrismaClient,
+	query: AuditLogQuery = {},
+): Promise<AuditLogEntry[]> => selectAuditLog(prisma, prisma, query);
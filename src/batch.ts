@@ -0,0 +1,119 @@
+import { Prisma } from "@prisma/client";
+
+// Runs a query of the batch in the given transaction
+type BatchQuery = (tx: Prisma.TransactionClient) => Promise<unknown>;
+
+interface BatchEntry {
+	query: BatchQuery;
+	// The result of the query in the latest attempt
+	result?: unknown;
+	// The latest run of the query, which rejects if the query failed
+	execution?: Promise<void>;
+	// Settles the request that the query belongs to
+	resolve: (value: unknown) => void;
+	reject: (e: unknown) => void;
+}
+
+/**
+ * Runs the requests of a batch transaction inside a Yates transaction.
+ *
+ * Prisma only runs a batch request once: attaching it to another transaction returns the result of the first attempt.
+ * To be able to retry the transaction, the Yates query extension hands the query of each request over to the batch,
+ * which runs it in the current transaction and runs it again if the transaction is retried.
+ * The requests are only settled once the transaction has been committed, so that results are never returned from an attempt that was rolled back.
+ */
+export class BatchTransaction {
+	private entries: Array<BatchEntry | undefined> = [];
+	private requestPromises: Promise<unknown>[] = [];
+	private tx?: Prisma.TransactionClient;
+	// The index of the request that is currently running
+	private current = -1;
+	// Called when the query of the current request has been handed over to the batch
+	private onQuery?: () => void;
+
+	constructor(private requests: Prisma.PrismaPromise<unknown>[]) {}
+
+	/**
+	 * Returns true if the queries of every request that has been run can be run again.
+	 * This is false if the batch contains requests that weren't made with the Yates client.
+	 */
+	canRetry() {
+		return this.requestPromises.every((_promise, i) => this.entries[i]);
+	}
+
+	/**
+	 * Runs the query of the current request in the current transaction. Called by the Yates query extension.
+	 * Returns a promise that is settled once the transaction has finished.
+	 */
+	add(query: BatchQuery): Promise<unknown> {
+		const tx = this.tx;
+		if (!tx) {
+			throw new Error("Batch transaction queries must be run by the batch");
+		}
+		return new Promise((resolve, reject) => {
+			const entry: BatchEntry = { query, resolve, reject };
+			this.entries[this.current] = entry;
+			this.execute(entry, tx);
+			this.onQuery?.();
+		});
+	}
+
+	// Runs the query and records its result, so that the request can be settled with it once the transaction has been committed
+	private execute(entry: BatchEntry, tx: Prisma.TransactionClient) {
+		entry.execution = entry.query(tx).then((result) => {
+			entry.result = result;
+		});
+		// Errors are thrown by `run`, which waits for the execution
+		entry.execution.catch(() => {});
+		return entry.execution;
+	}
+
+	/**
+	 * Runs every request in order, in the given transaction.
+	 * Queries that were handed over to the batch in a previous attempt are run again.
+	 */
+	async run(tx: Prisma.TransactionClient, transaction: unknown) {
+		this.tx = tx;
+		for (let i = 0; i < this.requests.length; i++) {
+			this.current = i;
+			const entry = this.entries[i];
+			if (entry) {
+				await this.execute(entry, tx);
+				continue;
+			}
+
+			const queried = new Promise<void>((resolve) => {
+				this.onQuery = resolve;
+			});
+			// biome-ignore lint/suspicious/noExplicitAny: This is a private API, so not much we can do about it
+			const request = this.requests[i] as any;
+			const promise: Promise<unknown> = request.requestTransaction(transaction);
+			// Errors are surfaced when the results are collected
+			promise.catch(() => {});
+			this.requestPromises[i] = promise;
+
+			// Requests that weren't made with the Yates client settle without handing their query over to the batch
+			await Promise.race([queried, promise]);
+			await this.entries[i]?.execution;
+		}
+	}
+
+	/**
+	 * Settles every request with its result from the committed transaction, and returns the results.
+	 */
+	async commit() {
+		for (const entry of this.entries) {
+			entry?.resolve(entry.result);
+		}
+		return Promise.all(this.requestPromises);
+	}
+
+	/**
+	 * Rejects every request with the error that the transaction failed with.
+	 */
+	rollback(e: unknown) {
+		for (const entry of this.entries) {
+			entry?.reject(e);
+		}
+	}
+}
@@ -0,0 +1,51 @@
+import { PrismaClient } from "@prisma/client";
+import logger from "debug";
+import { takeLock } from "./lock";
+import { TableSchemas, grantSchemaStatements } from "./schemas";
+
+const debug = logger("yates");
+
+export interface BypassAccount {
+	/** Why the account needs to bypass RLS. This is recorded in debug logs, traces and the audit log. */
+	reason: string;
+	/**
+	 * Controls how queries made by the account are run.
+	 * If set to "connection", queries are run as the user that Prisma connects with, in the same way as a `null` context.
+	 * If set to "role", queries are run inside a transaction that is switched to a role with the BYPASSRLS attribute, which is created by `setup`.
+	 * The default value is "connection".
+	 */
+	mode?: "connection" | "role";
+	/** If true, an event is written to the audit log every time the account bypasses RLS */
+	audit?: boolean;
+}
+
+export type BypassAccounts = Record<string, BypassAccount>;
+
+/**
+ * Creates a role that bypasses RLS for a bypass account.
+ * The role is granted every privilege on the tables, sequences and schemas of the models, so that it can be used in place of the connection user.
+ */
+export const setupBypassRole = async (
+	prisma: PrismaClient,
+	role: string,
+	tableSchemas: TableSchemas,
+) => {
+	debug("Setting up bypass role", role);
+	await prisma.$transaction([
+		takeLock(prisma),
+		prisma.$executeRawUnsafe(`
+			do
+			$$
+			begin
+			if not exists (select * from pg_catalog.pg_roles where rolname = '${role}') then
+				create role ${role} BYPASSRLS;
+			end if;
+			end
+			$$
+			;
+		`),
+		...grantSchemaStatements(tableSchemas, role).map((statement) =>
+			prisma.$executeRawUnsafe(statement),
+		),
+	]);
+};
@@ -0,0 +1,207 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import lowerFirst from "lodash/lowerFirst";
+import { YatesPermissionError, normalizeError } from "./errors";
+import { getRuntimeDataModel } from "./expressions";
+import { TableSchemas, qualifyModelTable } from "./schemas";
+
+type CanOperation = "SELECT" | "INSERT" | "UPDATE" | "DELETE";
+
+/**
+ * The row to check permissions for. For INSERT this is the data for the candidate row,
+ * for every other operation this is either the ID of the row or a `where` clause that selects the rows.
+ */
+export type CanRow = string | number | Record<string, unknown>;
+
+// Thrown to roll back the permission check transaction once the result is known
+export class CanRollback {
+	constructor(public result: boolean) {}
+}
+
+export const getIdField = (prisma: PrismaClient, model: string) => {
+	const runtimeDataModel = getRuntimeDataModel(prisma);
+	const modelData = runtimeDataModel.models[model];
+	if (!modelData) {
+		throw new Error(
+			`Could not retrieve model data from Prisma Client for model '${model}'`,
+		);
+	}
+	const idField = modelData.fields.find((f) => f.isId);
+	if (!idField) {
+		throw new Error(
+			`Model '${model}' must have a single ID field to check permissions using an ID`,
+		);
+	}
+	return idField.name;
+};
+
+// Returns the fields of the model that the current role can both read and update, with the ID field first if it is one of them.
+// Roles can be granted UPDATE on a subset of columns, so the ID field can't always be used to check UPDATE permissions.
+const getUpdatableFields = async (
+	prisma: PrismaClient,
+	tx: Prisma.TransactionClient,
+	model: string,
+	idField: string,
+	tableSchemas?: TableSchemas,
+) => {
+	const runtimeDataModel = getRuntimeDataModel(prisma);
+	const table = qualifyModelTable(runtimeDataModel, model, tableSchemas);
+	const columns: Array<{ column_name: string }> = await tx.$queryRawUnsafe(
+		`
+		SELECT attname AS column_name
+		FROM pg_catalog.pg_attribute
+		WHERE attrelid = $1::regclass
+			AND attnum > 0
+			AND NOT attisdropped
+			AND has_column_privilege(attrelid, attnum, 'SELECT')
+			AND has_column_privilege(attrelid, attnum, 'UPDATE')
+		`,
+		table,
+	);
+	const columnNames = columns.map(({ column_name }) => column_name);
+
+	return runtimeDataModel.models[model].fields
+		.filter(
+			(field) =>
+				field.kind !== "object" &&
+				// JSON nulls can't be written back as they were read
+				field.type !== "Json" &&
+				columnNames.includes(field.dbName || field.name),
+		)
+		.map((field) => field.name)
+		.sort((a, b) => Number(b === idField) - Number(a === idField));
+};
+
+// Unique, foreign key, check and not null constraint violations
+const CONSTRAINT_ERROR_CODES = ["P2002", "P2003", "P2004", "P2011"];
+
+// Runs a check and returns its result, or false if it fails due to a permission error.
+// PG checks constraints after RLS policies and privileges, so a constraint violation means that the operation is permitted:
+// `$can` reports whether the role can perform the operation, not whether the data is valid.
+// The check is run in a savepoint, so that the transaction can still be used after a constraint violation.
+const isPermitted = async (
+	tx: Prisma.TransactionClient,
+	check: () => Promise<boolean>,
+) => {
+	await tx.$executeRawUnsafe("SAVEPOINT yates_can");
+	try {
+		return await check();
+	} catch (e) {
+		if (
+			normalizeError(e, { operation: "$can", role: "" }) instanceof
+			YatesPermissionError
+		) {
+			return false;
+		}
+		// Prisma throws a "not found" error if the row to update is filtered out by RLS
+		if (
+			e instanceof Prisma.PrismaClientKnownRequestError &&
+			e.code === "P2025"
+		) {
+			return false;
+		}
+		if (
+			e instanceof Prisma.PrismaClientKnownRequestError &&
+			CONSTRAINT_ERROR_CODES.includes(e.code)
+		) {
+			await tx.$executeRawUnsafe("ROLLBACK TO SAVEPOINT yates_can");
+			return true;
+		}
+		throw e;
+	}
+};
+
+/**
+ * Checks if the role that the transaction has been switched to can perform the operation on the row.
+ * The operation is actually performed, so this must be run inside a transaction that is always rolled back.
+ */
+export const checkPermission = async (
+	prisma: PrismaClient,
+	tx: Prisma.TransactionClient,
+	model: Prisma.ModelName,
+	operation: CanOperation,
+	row: CanRow,
+	tableSchemas?: TableSchemas,
+): Promise<boolean> => {
+	// biome-ignore lint/suspicious/noExplicitAny: The model delegate can't be typed generically
+	const delegate = (tx as any)[lowerFirst(model)];
+
+	if (operation === "INSERT") {
+		if (typeof row !== "object") {
+			throw new Error("Checking INSERT permissions requires the row data");
+		}
+		return isPermitted(tx, async () => {
+			await delegate.create({ data: row });
+			return true;
+		});
+	}
+
+	const idField = getIdField(prisma, model);
+	const where = typeof row === "object" ? row : { [idField]: row };
+
+	// UPDATE is checked by setting a field to its current value, so the field is selected along with the ID
+	const updateField =
+		operation === "UPDATE"
+			? (await getUpdatableFields(prisma, tx, model, idField, tableSchemas))[0]
+			: idField;
+	// The role can't update any field that it can read
+	if (!updateField) {
+		return false;
+	}
+
+	// Only rows that the role can read can be updated or deleted by Prisma
+	let rows: Record<string, unknown>[] = [];
+	const readable = await isPermitted(tx, async () => {
+		rows = await delegate.findMany({
+			where,
+			select: {
+				[idField]: true,
+				[updateField]: true,
+			},
+		});
+		return rows.length > 0;
+	});
+
+	if (!readable) {
+		return false;
+	}
+
+	switch (operation) {
+		case "SELECT":
+			return true;
+
+		case "UPDATE":
+			// Setting a field to its current value runs an UPDATE that is checked by both the USING and WITH CHECK expressions
+			for (const { [idField]: id, [updateField]: value } of rows) {
+				const permitted = await isPermitted(tx, async () => {
+					await delegate.update({
+						where: { [idField]: id },
+						data: { [updateField]: value },
+						select: { [idField]: true },
+					});
+					return true;
+				});
+				if (!permitted) {
+					return false;
+				}
+			}
+			return true;
+
+		case "DELETE":
+			// Each row is deleted separately, so that a constraint violation on one row doesn't hide the result for the others
+			for (const { [idField]: id } of rows) {
+				const permitted = await isPermitted(tx, async () => {
+					const { count } = await delegate.deleteMany({
+						where: { [idField]: id },
+					});
+					return count === 1;
+				});
+				if (!permitted) {
+					return false;
+				}
+			}
+			return true;
+
+		default:
+			throw new Error(`Invalid operation: ${operation}`);
+	}
+};
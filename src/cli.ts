@@ -0,0 +1,280 @@
+#!/usr/bin/env node
+import { existsSync } from "fs";
+import * as path from "path";
+import { PrismaClient } from "@prisma/client";
+import { YatesVerificationError } from "./errors";
+import { expressionToSQL, getRuntimeDataModel } from "./expressions";
+import { SetupParams, plan, setup } from "./index";
+import { PlanOperation, createExecutor } from "./plan";
+import { getTableSchemas } from "./schemas";
+import { getTeardownOperations } from "./teardown";
+
+const USAGE = `Usage: yates <command> [options]
+
+Commands:
+  plan                      List the operations that setup would run, without running them
+  apply                     Create and update the roles, abilities and policies
+  inspect                   List the roles, abilities and policies in the database
+  verify                    Exit with an error if the database doesn't match the configuration
+  compile <model> <ability> Print the SQL of an ability's expression
+  teardown                  Drop every role, policy and ability that Yates created
+
+Options:
+  --config <path>  The module that exports the setup parameters. Defaults to yates.config.ts or yates.config.js
+  --json           Print the output of plan and inspect as JSON
+  --yes            Confirm teardown, which only lists the operations otherwise
+  --help           Show this message
+`;
+
+const DEFAULT_CONFIG_FILES = ["yates.config.ts", "yates.config.js"];
+
+// The packages that can be used to load a TypeScript config, in order of preference
+const TYPESCRIPT_LOADERS = ["tsx/cjs", "ts-node/register"];
+
+interface CliArgs {
+	command?: string;
+	positionals: string[];
+	config?: string;
+	json: boolean;
+	yes: boolean;
+	help: boolean;
+}
+
+const parseArgs = (argv: string[]): CliArgs => {
+	const args: CliArgs = {
+		positionals: [],
+		json: false,
+		yes: false,
+		help: false,
+	};
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (arg === "--config") {
+			args.config = argv[++i];
+			if (!args.config) {
+				throw new Error("--config must be followed by a path");
+			}
+		} else if (arg.startsWith("--config=")) {
+			args.config = arg.slice("--config=".length);
+		} else if (arg === "--json") {
+			args.json = true;
+		} else if (arg === "--yes") {
+			args.yes = true;
+		} else if (arg === "--help" || arg === "-h") {
+			args.help = true;
+		} else if (arg.startsWith("-")) {
+			throw new Error(`Unknown option: ${arg}`);
+		} else if (!args.command) {
+			args.command = arg;
+		} else {
+			args.positionals.push(arg);
+		}
+	}
+	return args;
+};
+
+/**
+ * Loads the setup parameters from a module, which can export them as the default export, as `config`, or as the module itself.
+ * TypeScript modules are loaded with tsx or ts-node, whichever is installed.
+ */
+const loadConfig = (configPath?: string): SetupParams => {
+	const file = configPath
+		? path.resolve(configPath)
+		: DEFAULT_CONFIG_FILES.map((name) => path.resolve(name)).find(existsSync);
+	if (!file || !existsSync(file)) {
+		throw new Error(
+			configPath
+				? `Could not find the config file "${configPath}"`
+				: `Could not find a config file, create ${DEFAULT_CONFIG_FILES.join(
+						" or ",
+				  )} or pass --config`,
+		);
+	}
+
+	if (/\.[cm]?ts$/.test(file)) {
+		const loader = TYPESCRIPT_LOADERS.find((name) => {
+			try {
+				require.resolve(name, { paths: [process.cwd()] });
+				return true;
+			} catch {
+				return false;
+			}
+		});
+		if (!loader) {
+			throw new Error(
+				"Install tsx or ts-node to load a TypeScript config, or use a JavaScript config",
+			);
+		}
+		require(require.resolve(loader, { paths: [process.cwd()] }));
+	}
+
+	const loaded = require(file);
+	const config = loaded.default ?? loaded.config ?? loaded;
+	if (!config?.prisma || typeof config.getRoles !== "function") {
+		throw new Error(
+			`The config file "${file}" must export the setup parameters, including "prisma" and "getRoles"`,
+		);
+	}
+	return config;
+};
+
+const printOperations = (operations: PlanOperation[], json: boolean) => {
+	if (json) {
+		console.log(JSON.stringify(operations, null, 2));
+		return;
+	}
+	if (!operations.length) {
+		console.log("No changes");
+		return;
+	}
+	for (const { type, target, sql } of operations) {
+		console.log(`-- ${type}: ${target}\n${sql.trim()}\n`);
+	}
+};
+
+const inspect = async (prisma: PrismaClient, json: boolean) => {
+	const roles: Array<{ rolname: string }> = await prisma.$queryRawUnsafe(`
+		SELECT rolname FROM pg_catalog.pg_roles WHERE rolname LIKE 'yates%' ORDER BY rolname
+	`);
+	const [{ exists }]: Array<{ exists: boolean }> = await prisma.$queryRawUnsafe(
+		`SELECT to_regclass('_yates._yates_abilities') IS NOT NULL AS exists`,
+	);
+	const abilities: Array<Record<string, string>> = exists
+		? await prisma.$queryRawUnsafe(`
+		SELECT ability_model, ability_name, ability_policy_name, ability_operation, ability_expression
+		FROM _yates._yates_abilities
+		ORDER BY ability_model, ability_name
+	`)
+		: [];
+	const policies: Array<Record<string, string>> = await prisma.$queryRawUnsafe(`
+		SELECT schemaname, tablename, policyname, cmd, array_to_string(roles, ', ') AS roles, qual, with_check
+		FROM pg_catalog.pg_policies
+		WHERE policyname LIKE 'yates%'
+		ORDER BY schemaname, tablename, policyname
+	`);
+
+	if (json) {
+		console.log(
+			JSON.stringify(
+				{ roles: roles.map(({ rolname }) => rolname), abilities, policies },
+				null,
+				2,
+			),
+		);
+		return;
+	}
+
+	console.log(`Roles (${roles.length})`);
+	for (const { rolname } of roles) {
+		console.log(`  ${rolname}`);
+	}
+	console.log(`\nAbilities (${abilities.length})`);
+	if (abilities.length) {
+		console.table(abilities);
+	}
+	console.log(`\nPolicies (${policies.length})`);
+	if (policies.length) {
+		console.table(policies);
+	}
+};
+
+const compile = async (config: SetupParams, model?: string, slug?: string) => {
+	if (!model || !slug) {
+		throw new Error("Usage: yates compile <model> <ability>");
+	}
+	const runtimeDataModel = getRuntimeDataModel(config.prisma);
+	if (!runtimeDataModel.models[model]) {
+		throw new Error(`Unknown model "${model}"`);
+	}
+
+	const customAbility = (
+		config.customAbilities as
+			| Record<string, Record<string, { expression?: unknown }>>
+			| undefined
+	)?.[model]?.[slug];
+	// The default abilities have no conditions
+	const expression =
+		customAbility?.expression ??
+		(["create", "read", "update", "delete"].includes(slug) ? "true" : null);
+	if (!expression) {
+		throw new Error(
+			`Ability "${slug}" on ${model} is not defined or has no expression`,
+		);
+	}
+
+	const tableSchemas = await getTableSchemas(config.prisma);
+	console.log(
+		await expressionToSQL(
+			// biome-ignore lint/suspicious/noExplicitAny: The config is not typed with the user's context keys
+			expression as any,
+			model,
+			tableSchemas[model],
+		),
+	);
+};
+
+const teardown = async (prisma: PrismaClient, yes: boolean) => {
+	const operations = await getTeardownOperations(prisma);
+	if (!yes) {
+		printOperations(operations, false);
+		console.error("Run with --yes to drop these roles and policies");
+		process.exitCode = 1;
+		return;
+	}
+	await createExecutor(prisma).run(operations);
+	console.log(`Ran ${operations.length} operation(s)`);
+};
+
+export const run = async (argv: string[]) => {
+	const args = parseArgs(argv);
+	if (args.help || !args.command) {
+		console.log(USAGE);
+		return;
+	}
+
+	const config = loadConfig(args.config);
+	try {
+		switch (args.command) {
+			case "plan":
+				printOperations(await plan(config), args.json);
+				break;
+			case "apply":
+				await setup({ ...config, mode: "apply" });
+				console.log("Applied the Yates configuration");
+				break;
+			case "inspect":
+				await inspect(config.prisma, args.json);
+				break;
+			case "verify":
+				try {
+					await setup({ ...config, mode: "verify" });
+					console.log("The database matches the Yates configuration");
+				} catch (e) {
+					if (!(e instanceof YatesVerificationError)) {
+						throw e;
+					}
+					console.error(e.message);
+					printOperations(e.operations, args.json);
+					process.exitCode = 1;
+				}
+				break;
+			case "compile":
+				await compile(config, args.positionals[0], args.positionals[1]);
+				break;
+			case "teardown":
+				await teardown(config.prisma, args.yes);
+				break;
+			default:
+				throw new Error(`Unknown command "${args.command}"\n\n${USAGE}`);
+		}
+	} finally {
+		await config.prisma.$disconnect();
+	}
+};
+
+if (require.main === module) {
+	run(process.argv.slice(2)).catch((e) => {
+		console.error(e instanceof Error ? e.message : e);
+		process.exitCode = 1;
+	});
+}
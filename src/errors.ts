@@ -0,0 +1,133 @@
+import { AllowedFields } from "./fields";
+import { PlanOperation } from "./plan";
+
+// The SQLSTATE PG uses for both RLS "WITH CHECK" violations and missing table privileges
+// https://www.postgresql.org/docs/current/errcodes-appendix.html
+const INSUFFICIENT_PRIVILEGE = "42501";
+
+const PERMISSION_ERROR_MESSAGES = [
+	"new row violates row-level security policy for table",
+	"permission denied for table",
+	"permission denied for schema",
+];
+
+export interface YatesPermissionErrorDetails {
+	/** The Prisma model that was being queried, if known. e.g. 'User' */
+	model?: string;
+	/** The operation that was being performed. e.g. 'create' or '$queryRaw' */
+	operation: string;
+	/** The Yates role that the operation was performed as */
+	role: string;
+}
+
+/**
+ * Thrown when the current role does not have permission to perform an operation,
+ * either because it lacks the table privileges or because an RLS policy rejected the row.
+ */
+export class YatesPermissionError extends Error {
+	model?: string;
+	operation: string;
+	role: string;
+	/** The Postgres table that the permission error was raised for */
+	table?: string;
+	/** The SQLSTATE code returned by Postgres */
+	code: string;
+	/** The fields the role can access, if the role only has column-level privileges on the table */
+	allowedFields?: AllowedFields;
+	originalError: Error;
+
+	constructor(
+		details: YatesPermissionErrorDetails & {
+			table?: string;
+			code: string;
+			allowedFields?: AllowedFields;
+			originalError: Error;
+		},
+	) {
+		const { model, operation, allowedFields } = details;
+		const fieldsMessage = allowedFields
+			? `. Only these fields can be accessed: ${Object.entries(allowedFields)
+					.map(
+						([op, fields]) =>
+							`${op} (${fields?.length ? fields.join(", ") : "none"})`,
+					)
+					.join(", ")}`
+			: "";
+		super(
+			`You do not have permission to perform this action: ${
+				model ? `${model}.${operation}` : operation
+			}(...)${fieldsMessage}`,
+		);
+		// Restore the prototype chain, as it is lost when extending built-in classes and compiling to ES5
+		Object.setPrototypeOf(this, YatesPermissionError.prototype);
+		this.name = "YatesPermissionError";
+		this.model = details.model;
+		this.operation = details.operation;
+		this.role = details.role;
+		this.table = details.table;
+		this.code = details.code;
+		this.allowedFields = details.allowedFields;
+		this.originalError = details.originalError;
+	}
+}
+
+/**
+ * Thrown by `setup` in "verify" mode when the database doesn't match the Yates configuration.
+ */
+export class YatesVerificationError extends Error {
+	/** The operations that would be needed to bring the database in line with the configuration */
+	operations: PlanOperation[];
+
+	constructor(operations: PlanOperation[]) {
+		super(
+			`The database does not match the Yates configuration, ${
+				operations.length
+			} operation(s) are pending: ${operations
+				.map(({ type, target }) => `${type} ${target}`)
+				.join(", ")}`,
+		);
+		// Restore the prototype chain, as it is lost when extending built-in classes and compiling to ES5
+		Object.setPrototypeOf(this, YatesVerificationError.prototype);
+		this.name = "YatesVerificationError";
+		this.operations = operations;
+	}
+}
+
+// Prisma surfaces PG errors in a few different formats depending on whether the query was a model query or a raw query.
+// Raw queries expose the SQLSTATE in the error metadata, whereas model queries only include it in the error message.
+// biome-ignore lint/suspicious/noExplicitAny: Prisma errors don't share a common type
+export const getSqlState = (e: any): string | undefined => {
+	if (typeof e.meta?.code === "string") {
+		return e.meta.code;
+	}
+	const match = e.message?.match(/[Cc]ode: [`"]?([0-9A-Z]{5})[`"]?/);
+	return match?.[1];
+};
+
+const getTableName = (message: string) => {
+	const match = message.match(/for table \\?"?([^"\\\s`]+)/);
+	return match?.[1];
+};
+
+// Normalize RLS errors to make them a bit more readable.
+// If the role has column-level privileges on the table, the fields it can access are included in the error.
+export const normalizeError = (
+	e: Error,
+	details: YatesPermissionErrorDetails,
+	allowedFields?: Record<string, AllowedFields>,
+) => {
+	const message = e.message ?? "";
+	if (!PERMISSION_ERROR_MESSAGES.some((m) => message.includes(m))) {
+		return e;
+	}
+
+	const table = getTableName(message);
+
+	return new YatesPermissionError({
+		...details,
+		table,
+		allowedFields: table ? allowedFields?.[table] : undefined,
+		code: getSqlState(e) ?? INSUFFICIENT_PRIVILEGE,
+		originalError: e,
+	});
+};
@@ -0,0 +1,163 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import flatten from "lodash/flatten";
+import lowerFirst from "lodash/lowerFirst";
+import toPairs from "lodash/toPairs";
+import { getIdField } from "./can";
+import { escapeIdentifier } from "./escape";
+import { getRuntimeDataModel, getTableName } from "./expressions";
+import { getTableSchemas, qualifyTable } from "./schemas";
+
+export interface AbilityExplanation {
+	/** The name of the ability, e.g. "read" or the key of a custom ability */
+	ability: string;
+	description: string;
+	operation: "SELECT" | "INSERT" | "UPDATE" | "DELETE";
+	/**
+	 * "pass" if the role holds the ability and its expression is true for the row,
+	 * "fail" if the role holds the ability but its expression is false,
+	 * and "missing" if the role doesn't hold the ability.
+	 */
+	status: "pass" | "fail" | "missing";
+}
+
+export interface AccessExplanation {
+	model: Prisma.ModelName;
+	/** Every ability defined for the model, with the result for the row */
+	abilities: AbilityExplanation[];
+}
+
+interface PgAbility {
+	ability_name: string;
+	ability_policy_name: string;
+	ability_description: string;
+	ability_operation: AbilityExplanation["operation"];
+	qual: string | null;
+	with_check: string | null;
+	held: boolean;
+}
+
+/**
+ * Evaluates the policy expression of each ability defined for the model against a single row,
+ * with the given context applied. The expressions are evaluated as the current (admin) user,
+ * so that the result of each expression can be reported separately.
+ */
+export const explainAbilities = async (
+	prisma: PrismaClient,
+	{
+		model,
+		where,
+		pgRoles,
+		context,
+	}: {
+		model: Prisma.ModelName;
+		where: Record<string, unknown>;
+		/** The PG roles of the Yates roles to explain */
+		pgRoles: string[];
+		context?: Record<string, string | number | string[]>;
+	},
+): Promise<AccessExplanation> => {
+	const runtimeDataModel = getRuntimeDataModel(prisma);
+	const table = getTableName(runtimeDataModel, model);
+	const tableSchemas = await getTableSchemas(prisma);
+	const idField = getIdField(prisma, model);
+
+	// biome-ignore lint/suspicious/noExplicitAny: The model delegate can't be typed generically
+	const row = await (prisma as any)[lowerFirst(model)].findFirst({
+		where,
+		select: {
+			[idField]: true,
+		},
+	});
+
+	if (!row) {
+		throw new Error(`No ${model} row matches the given where clause`);
+	}
+
+	const idColumn =
+		runtimeDataModel.models[model].fields.find((f) => f.name === idField)
+			?.dbName || idField;
+
+	// Abilities are held if their role has been granted to the user role, either directly or through another role
+	const abilities: PgAbility[] = await prisma.$queryRaw`
+		WITH RECURSIVE memberships AS (
+			SELECT oid FROM pg_catalog.pg_roles WHERE rolname IN (${Prisma.join(
+				pgRoles,
+			)})
+			UNION
+			SELECT m.roleid
+			FROM memberships
+			JOIN pg_catalog.pg_auth_members m ON m.member = memberships.oid
+		)
+		SELECT
+			a.ability_name,
+			a.ability_policy_name,
+			a.ability_description,
+			a.ability_operation,
+			p.qual,
+			p.with_check,
+			EXISTS (
+				SELECT 1 FROM memberships WHERE memberships.oid::regrole::text = a.ability_policy_name
+			) AS held
+		FROM _yates._yates_abilities a
+		LEFT JOIN pg_catalog.pg_policies p ON p.policyname = a.ability_policy_name AND p.tablename = a.ability_model AND p.schemaname = ${
+			tableSchemas[model]
+		}
+		WHERE a.ability_model = ${table}
+		ORDER BY a.id
+	`;
+
+	const evaluated = abilities.filter(
+		(ability) => ability.held && (ability.qual ?? ability.with_check),
+	);
+
+	let results: Record<string, boolean | null> = {};
+
+	if (evaluated.length) {
+		const settings = toPairs(context).map(
+			([key, value]) => [key, value.toString()] as [string, string],
+		);
+		const setConfigCalls = settings.map(
+			(_setting, i) => `set_config($${i * 2 + 1}, $${i * 2 + 2}, true)`,
+		);
+		// Each expression is selected as a separate column, so that they are evaluated independently of each other
+		const columns = evaluated.map(
+			(ability, i) => `(${ability.qual ?? ability.with_check}) AS "${i}"`,
+		);
+
+		results = await prisma.$transaction(async (tx) => {
+			if (setConfigCalls.length) {
+				await tx.$queryRawUnsafe(
+					`SELECT ${setConfigCalls.join(", ")};`,
+					...flatten(settings),
+				);
+			}
+			const [result]: Record<string, boolean | null>[] =
+				await tx.$queryRawUnsafe(
+					`SELECT ${columns.join(", ")} FROM ${qualifyTable(
+						table,
+						tableSchemas[model],
+					)} WHERE ${escapeIdentifier(idColumn)} = $1`,
+					row[idField],
+				);
+			return result;
+		});
+	}
+
+	return {
+		model,
+		abilities: abilities.map((ability) => {
+			let status: AbilityExplanation["status"] = "missing";
+			if (ability.held) {
+				const index = evaluated.indexOf(ability);
+				// Abilities without an expression don't restrict access
+				status = index === -1 || results[index] === true ? "pass" : "fail";
+			}
+			return {
+				ability: ability.ability_name,
+				description: ability.ability_description,
+				operation: ability.ability_operation,
+				status,
+			};
+		}),
+	};
+};
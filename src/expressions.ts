@@ -14,6 +14,15 @@ const debug = logger("yates");
 // It's not exported, so we need to use some type infiltration to get it
 export type RuntimeDataModel = Parameters<typeof defineDmmfProperty>[1];
 
+// See https://github.com/prisma/prisma/discussions/14777
+// We are reaching into the prisma internals to get the data model.
+// This is a bit sketchy, but we can get the internal type definition from the runtime library
+// and there is even a test case in prisma that checks that this value is exported
+// See https://github.com/prisma/prisma/blob/5.1.0/packages/client/tests/functional/extensions/pdp.ts#L51
+export const getRuntimeDataModel = (prisma: PrismaClient): RuntimeDataModel =>
+	// biome-ignore lint/suspicious/noExplicitAny: This is a private API, so not much we can do about it
+	(prisma as any)._runtimeDataModel;
+
 const PRISMA_NUMERIC_TYPES = ["Int", "BigInt", "Float", "Decimal"];
 
 // This function is a recursive function that will search through an object and
@@ -53,6 +62,12 @@ type NonNullableModelResult<M extends Prisma.ModelName> = Exclude<
 	null
 >;
 
+// The names of the scalar fields of a model
+export type ModelField<M extends Prisma.ModelName> = Extract<
+	keyof NonNullableModelResult<M>,
+	string
+>;
+
 // The expression below explicitly excludes returning a client query for the model the expression is for, as this can create infinite loops as the access logic recurses
 export type Expression<ContextKeys extends string, M extends Prisma.ModelName> =
 	| string
@@ -74,14 +89,18 @@ const expressionContext = (context: string) => `___yates_context_${context}`;
 // Generate a big 32bit signed integer to use as an ID
 const getLargeRandomInt = () => random(1000000000, 2147483647);
 
+// Returns the name of the table for a model, which is different to the model name if the model uses @@map
+export const getTableName = (
+	runtimeDataModel: RuntimeDataModel,
+	model: string,
+) => runtimeDataModel.models[model]?.dbName || model;
+
 const getDmmfMetaData = (
 	client: PrismaClient,
 	model: string,
 	field: string,
 ) => {
-	// biome-ignore lint/suspicious/noExplicitAny: TODO fix this
-	const runtimeDataModel = (client as any)
-		._runtimeDataModel as RuntimeDataModel;
+	const runtimeDataModel = getRuntimeDataModel(client);
 	const modelData = runtimeDataModel.models[model];
 	if (!modelData) {
 		throw new Error(
@@ -110,8 +129,10 @@ const tokenizeWhereExpression = (
 	/** The Prisma where expression to be tokenized */
 	// biome-ignore lint/suspicious/noExplicitAny: TODO fix this
 	where: Record<string, any>,
-	/** The base table we are generating an expression for */
-	table: string,
+	/** The base model we are generating an expression for. e.g. 'Post' */
+	baseModel: string,
+	/** The PG schema of the base model's table */
+	schema: string,
 	/** The model name being queried. e.g. 'User' */
 	model: string,
 	/** The tokens object to add the new tokens to */
@@ -121,6 +142,8 @@ const tokenizeWhereExpression = (
 	// biome-ignore lint/suspicious/noExplicitAny: TODO fix this
 	where: Record<string, any>;
 } => {
+	const runtimeDataModel = getRuntimeDataModel(client);
+
 	for (const field in where) {
 		// Get field data from the prisma client for the model and field being queried
 		const fieldData = getDmmfMetaData(client, model, field);
@@ -147,7 +170,8 @@ const tokenizeWhereExpression = (
 						tokenizeWhereExpression(
 							client,
 							subValue,
-							table,
+							baseModel,
+							schema,
 							fieldData.type,
 							tokens,
 						);
@@ -165,7 +189,8 @@ const tokenizeWhereExpression = (
 			const { tokens: subTokens, where: subWhere } = tokenizeWhereExpression(
 				client,
 				value,
-				table,
+				baseModel,
+				schema,
 				fieldData.type,
 				tokens,
 			);
@@ -191,14 +216,17 @@ const tokenizeWhereExpression = (
 				// Substiture the yates row placeholder for the actual column name
 				// biome-ignore lint/correctness/noSwitchDeclarations: TODO fix this
 				const column = value.replace(/^___yates_row_/, "");
-				if (!getDmmfMetaData(client, table, column)) {
+				// biome-ignore lint/correctness/noSwitchDeclarations: TODO fix this
+				const columnData = getDmmfMetaData(client, baseModel, column);
+				if (!columnData) {
 					throw new Error(`Invalid field name "${column}"`);
 				}
+				// The column reference is added to the SQL as-is, so the table and column names are mapped to their DB names
 				astFragment = {
 					type: "column_ref",
-					schema: "public",
-					table: table,
-					column: column,
+					schema,
+					table: getTableName(runtimeDataModel, baseModel),
+					column: columnData.dbName || column,
 				};
 				break;
 
@@ -317,7 +345,10 @@ export const expressionToSQL = async <
 	YModel extends Prisma.ModelName,
 >(
 	getExpression: Expression<ContextKeys, YModel>,
-	table: string,
+	/** The Prisma model that the expression is for. e.g. 'Post' */
+	model: string,
+	/** The PG schema of the model's table */
+	schema = "public",
 ): Promise<string> => {
 	if (typeof getExpression === "string") {
 		return getExpression;
@@ -341,7 +372,7 @@ export const expressionToSQL = async <
 		name: "expressionClient",
 		query: {
 			$allModels: {
-				$allOperations({ model, operation, args, query }) {
+				$allOperations({ model: queriedModel, operation, args, query }) {
 					// if not findFirst or findUnique
 					if (operation !== "findFirst" && operation !== "findUnique") {
 						throw new Error(
@@ -353,8 +384,9 @@ export const expressionToSQL = async <
 						const { where } = tokenizeWhereExpression(
 							baseClient,
 							args.where,
-							table,
 							model,
+							schema,
+							queriedModel,
 							tokens,
 						);
 						args.where = where;
@@ -455,7 +487,7 @@ export const expressionToSQL = async <
 					await rawExpression;
 				} else {
 					// biome-ignore lint/suspicious/noExplicitAny: TODO fix this
-					await (expressionClient as any)[table].findFirst({
+					await (expressionClient as any)[model].findFirst({
 						where: rawExpression,
 					});
 				}
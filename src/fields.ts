@@ -0,0 +1,116 @@
+import { RuntimeDataModel, getTableName } from "./expressions";
+
+// The operations that support column-level privileges
+export type FieldOperation = "SELECT" | "INSERT" | "UPDATE";
+
+const FIELD_OPERATIONS: string[] = ["SELECT", "INSERT", "UPDATE"];
+
+/** The fields that can be accessed for each column-restricted operation on a model */
+export type AllowedFields = Partial<Record<FieldOperation, string[]>>;
+
+// The allowed fields for each role, keyed by role name and then by table, as the table is all that PG errors include
+export type FieldRestrictions = Record<string, Record<string, AllowedFields>>;
+
+interface FieldAbility {
+	model?: string;
+	operation: string;
+	fields?: string[];
+}
+
+/**
+ * Validates the fields of a column-restricted ability and returns the escaped column names to use in a GRANT statement.
+ */
+export const getGrantColumns = (
+	runtimeDataModel: RuntimeDataModel,
+	model: string,
+	slug: string,
+	{ operation, fields }: FieldAbility,
+) => {
+	if (!FIELD_OPERATIONS.includes(operation)) {
+		throw new Error(
+			`Ability "${slug}" on ${model} has fields, but fields can only be used with SELECT, INSERT and UPDATE abilities`,
+		);
+	}
+	if (!fields?.length) {
+		throw new Error(
+			`Ability "${slug}" on ${model} must have at least one field if fields are provided`,
+		);
+	}
+
+	const modelData = runtimeDataModel.models[model];
+
+	return fields.map((field) => {
+		const fieldData = modelData?.fields.find(
+			(f) => f.name === field && f.kind !== "object",
+		);
+		if (!fieldData) {
+			throw new Error(
+				`Invalid field "${field}" in ability "${slug}" on ${model}`,
+			);
+		}
+		return `"${fieldData.dbName || fieldData.name}"`;
+	});
+};
+
+/**
+ * Returns the fields a role can access on tables where every ability it holds for an operation is column-restricted.
+ * Operations that the role holds an unrestricted ability for are omitted.
+ */
+export const getAllowedFields = (
+	runtimeDataModel: RuntimeDataModel,
+	abilities: FieldAbility[],
+	restrictedOperations: Set<string>,
+) => {
+	const allowedFields: Record<string, AllowedFields> = {};
+	const getTable = (ability: FieldAbility) =>
+		// biome-ignore lint/style/noNonNullAssertion: Abilities are always created with a model
+		getTableName(runtimeDataModel, ability.model!);
+	const unrestricted = new Set(
+		abilities
+			.filter((ability) => !ability.fields)
+			.map((ability) => `${getTable(ability)}:${ability.operation}`),
+	);
+
+	for (const key of restrictedOperations) {
+		if (unrestricted.has(key)) {
+			continue;
+		}
+		const [table, operation] = key.split(":") as [string, FieldOperation];
+		const fields = abilities
+			.filter(
+				(ability) =>
+					getTable(ability) === table && ability.operation === operation,
+			)
+			.flatMap((ability) => ability.fields ?? []);
+
+		allowedFields[table] = allowedFields[table] ?? {};
+		allowedFields[table][operation] = Array.from(new Set(fields));
+	}
+
+	return allowedFields;
+};
+
+/**
+ * Combines the allowed fields of several roles that are used at once.
+ * An operation is only restricted if it is restricted for every role, in which case the allowed fields are combined.
+ */
+export const combineAllowedFields = (
+	roles: Record<string, AllowedFields>[],
+): Record<string, AllowedFields> => {
+	const [first, ...rest] = roles;
+	const combined: Record<string, AllowedFields> = {};
+
+	for (const table in first) {
+		for (const operation in first[table]) {
+			const op = operation as FieldOperation;
+			if (rest.every((role) => role[table]?.[op])) {
+				combined[table] = combined[table] ?? {};
+				combined[table][op] = Array.from(
+					new Set([first, ...rest].flatMap((role) => role[table]?.[op] ?? [])),
+				);
+			}
+		}
+	}
+
+	return combined;
+};
@@ -1,11 +1,114 @@
 import * as crypto from "crypto";
 import { Prisma, PrismaClient } from "@prisma/client";
+import { ITXClientDenyList, Types } from "@prisma/client/runtime/library";
+import { AsyncLocalStorage } from "async_hooks";
 import logger from "debug";
 import difference from "lodash/difference";
 import flatMap from "lodash/flatMap";
+import flatten from "lodash/flatten";
+import lowerFirst from "lodash/lowerFirst";
 import map from "lodash/map";
 import toPairs from "lodash/toPairs";
-import { Expression, RuntimeDataModel, expressionToSQL } from "./expressions";
+import uniq from "lodash/uniq";
+import xor from "lodash/xor";
+import {
+	AuditLogEntry,
+	AuditLogQuery,
+	AuditOptions,
+	queryAuditLog,
+	recordBypass,
+	selectAuditLog,
+	setupAudit,
+	setupAuditTable,
+} from "./audit";
+import { BatchTransaction } from "./batch";
+import { BypassAccount, BypassAccounts, setupBypassRole } from "./bypass";
+import { CanRollback, CanRow, checkPermission } from "./can";
+import { YatesVerificationError, normalizeError } from "./errors";
+import { escapeIdentifier, escapeLiteral } from "./escape";
+import { AccessExplanation, explainAbilities } from "./explain";
+import {
+	Expression,
+	ModelField,
+	expressionToSQL,
+	getRuntimeDataModel,
+	getTableName,
+} from "./expressions";
+import {
+	FieldRestrictions,
+	combineAllowedFields,
+	getAllowedFields,
+	getGrantColumns,
+} from "./fields";
+import { takeLock } from "./lock";
+import {
+	Mask,
+	MaskRestrictions,
+	RoleMasks,
+	applyMasks,
+	checkMaskedAggregation,
+	combineRoleMasks,
+	getRoleMasks,
+	validateMask,
+} from "./masks";
+import { formatMigration, writeMigrationFile } from "./migration";
+import {
+	Executor,
+	PlanOperation,
+	createExecutor,
+	getDirectMemberships,
+	getGrantedColumns,
+	hasRolePrivileges,
+} from "./plan";
+import {
+	PruneMode,
+	PruneReport,
+	findOrphans,
+	getPruneOperations,
+} from "./prune";
+import { RetryOptions, withRetry } from "./retry";
+import {
+	RoleConfig,
+	getAncestorRoles,
+	normalizeRole,
+	sortRoles,
+} from "./roles";
+import {
+	TABLE_OPERATIONS,
+	TableSchemas,
+	getJoinTables,
+	getTableSchemas,
+	grantRoleStatements,
+	qualifyModelTable,
+	qualifyTable,
+} from "./schemas";
+import { scopeClient } from "./scope";
+import { YatesTracer, noopTracer, withSpan } from "./tracing";
+
+export {
+	AuditLogEntry,
+	AuditLogQuery,
+	AuditOperation,
+	AuditOptions,
+	queryAuditLog,
+} from "./audit";
+export { BypassAccount, BypassAccounts } from "./bypass";
+export { CanRow } from "./can";
+export { YatesPermissionError, YatesVerificationError } from "./errors";
+export { AllowedFields } from "./fields";
+export { Mask } from "./masks";
+export { PlanOperation, PlanOperationType } from "./plan";
+export { PruneMode, PruneReport } from "./prune";
+export { RetryOptions } from "./retry";
+export { RoleDefinition } from "./roles";
+export { AbilityExplanation, AccessExplanation } from "./explain";
+export {
+	InMemoryTracer,
+	YatesSpan,
+	YatesSpanAttributes,
+	YatesTracer,
+	noopTracer,
+} from "./tracing";
 
 const VALID_OPERATIONS = ["SELECT", "UPDATE", "INSERT", "DELETE"] as const;
 
@@ -26,6 +129,7 @@ interface PgYatesAbility {
 
 interface PgPolicy {
 	policyname: string;
+	schemaname: string;
 	tablename: string;
 	cmd: "SELECT" | "INSERT" | "UPDATE" | "DELETE";
 	qual: string | null;
@@ -41,12 +145,56 @@ interface ClientOptions {
 	txMaxWait?: number;
 	/** The maximum amount of time the Yates query transaction can run before being canceled and rolled back. The default value is 30 seconds. */
 	txTimeout?: number;
+	/**
+	 * Controls how raw queries (`$queryRaw`, `$executeRaw` and their Unsafe variants) are handled.
+	 * If set to "enforce", raw queries are run with the role and context of the current user.
+	 * The default value is "skip", which runs raw queries without RLS. Raw queries are always enforced in strict mode.
+	 */
+	rawQueries?: "skip" | "enforce";
+	/** A tracer that is used to report spans for Yates queries and setup. By default no spans are reported. */
+	tracer?: YatesTracer;
+	/** The isolation level of Yates transactions. The default is the database's default isolation level. */
+	isolationLevel?: Prisma.TransactionIsolationLevel;
+	/**
+	 * Retries Yates transactions that fail due to serialization failures or deadlocks.
+	 * The role and context are set again on every attempt. By default transactions are not retried.
+	 */
+	retry?: RetryOptions;
+	/**
+	 * If true, an error is thrown when `getContext` returns `null`, instead of bypassing RLS.
+	 * RLS can then only be bypassed explicitly, by using the base Prisma client.
+	 * Raw queries are also run with the role and context of the current user, whatever the value of `rawQueries`.
+	 */
+	strict?: boolean;
+}
+
+interface CreateClientOptions extends ClientOptions {
+	/** The role that is used for requests where `getContext` returns `{ anonymous: true }` */
+	anonymousRole?: string;
+	/** The accounts that can bypass RLS, where `getContext` returns `{ bypass: "<name>" }` */
+	bypass?: BypassAccounts;
+	/** The fields each role can access on column-restricted tables, used to explain permission errors */
+	fieldRestrictions?: FieldRestrictions;
+	/** The masked fields for each role, which are applied to the results of queries */
+	maskRestrictions?: MaskRestrictions;
+	/** The PG schema of each model's table, used to qualify the tables that the client queries directly */
+	tableSchemas?: TableSchemas;
 }
 
 export interface Ability<ContextKeys extends string, M extends Models> {
 	description?: string;
 	expression?: Expression<ContextKeys, M>;
 	operation: Operation;
+	/**
+	 * Restricts a SELECT, INSERT or UPDATE ability to these fields, using column-level privileges.
+	 * Roles that only hold column-restricted abilities for an operation on a model can't access any other fields for that operation.
+	 */
+	fields?: ModelField<M>[];
+	/**
+	 * Masks the values of these fields for roles that only hold masked SELECT abilities on the model, instead of throwing an error.
+	 * Use "null" to return null, "partial" to return a redacted value such as "j***@example.com", or an SQL expression that can use the columns of the row.
+	 */
+	mask?: Partial<Record<ModelField<M>, Mask>>;
 	model?: M;
 	slug?: string;
 }
@@ -56,6 +204,14 @@ export type AllAbilities<ContextKeys extends string, YModels extends Models> = {
 	[model in YModels]: Ability<ContextKeys, model>;
 }[YModels];
 
+/**
+ * The roles returned by `getRoles`. A role is either a list of abilities, "*" for every ability,
+ * or a definition that extends other roles, in which case it inherits all of their abilities.
+ */
+export type Roles<ContextKeys extends string, YModels extends Models> = {
+	[role: string]: RoleConfig<AllAbilities<ContextKeys, YModels>>;
+};
+
 type CRUDOperations = "read" | "create" | "update" | "delete";
 export type DefaultAbilities<
 	ContextKeys extends string = string,
@@ -74,28 +230,57 @@ export type CustomAbilities<
 	};
 };
 
-export type GetContextFn<ContextKeys extends string = string> = () => {
-	role: string;
+type ContextValues<ContextKeys extends string> = {
 	context?: {
 		[key in ContextKeys]: string | number | string[];
 	};
-} | null;
+};
 
-declare module "@prisma/client" {
-	interface PrismaClient {
-		// biome-ignore lint/suspicious/noExplicitAny: TODO fix this
-		_executeRequest: (params: any) => Promise<any>;
-	}
-}
-
-/**
- * This function is used to take a lock that is automatically released at the end of the current transaction.
- * This is very convenient for ensuring we don't hit concurrency issues when running setup code.
- */
-const takeLock = (prisma: PrismaClient) =>
-	prisma.$executeRawUnsafe(
-		"SELECT pg_advisory_xact_lock(2142616474639426746);",
-	);
+type RoleContext<ContextKeys extends string = string> = (
+	| {
+			role: string;
+			roles?: undefined;
+			anonymous?: undefined;
+			bypass?: undefined;
+	  }
+	| {
+			/** Multiple roles can be provided, in which case the union of their abilities is used */
+			roles: string[];
+			role?: undefined;
+			anonymous?: undefined;
+			bypass?: undefined;
+	  }
+) &
+	ContextValues<ContextKeys>;
+
+type AnonymousContext<ContextKeys extends string = string> = {
+	/** Runs the request as the `anonymousRole` that was passed to `setup` */
+	anonymous: true;
+	role?: undefined;
+	roles?: undefined;
+	bypass?: undefined;
+} & ContextValues<ContextKeys>;
+
+type BypassContext<ContextKeys extends string = string> = {
+	/** Bypasses RLS using one of the bypass accounts that were passed to `setup` */
+	bypass: string;
+	role?: undefined;
+	roles?: undefined;
+	anonymous?: undefined;
+} & ContextValues<ContextKeys>;
+
+type Context<ContextKeys extends string = string> =
+	| RoleContext<ContextKeys>
+	| AnonymousContext<ContextKeys>
+	| BypassContext<ContextKeys>;
+
+// The context that a request is run with, once anonymous requests have been mapped to the anonymous role
+type RequestContext = RoleContext | BypassContext;
+
+export type GetContextFn<ContextKeys extends string = string> = () =>
+	| Context<ContextKeys>
+	| null
+	| Promise<Context<ContextKeys> | null>;
 
 /*
  * This function creates a table used to track the abilities that have been
@@ -107,13 +292,28 @@ const takeLock = (prisma: PrismaClient) =>
  * If we use the public schema, we could potentially conflict with a user's table and we will
  * also cause issues for Prisma's migrate tooling, as it will detect a DB drift.
  */
-const setupAbilityTable = (prisma: PrismaClient) => {
-	return prisma.$transaction([
-		takeLock(prisma),
-		prisma.$executeRawUnsafe(`
-		CREATE SCHEMA IF NOT EXISTS _yates;
-		`),
-		prisma.$executeRawUnsafe(`
+// Returns true if the ability table can be read, which is only false in a dry run where the table doesn't exist yet
+const setupAbilityTable = async (prisma: PrismaClient, executor: Executor) => {
+	if (executor.mode !== "compile") {
+		const [{ exists }]: Array<{ exists: boolean }> =
+			await prisma.$queryRawUnsafe(
+				`SELECT to_regclass('_yates._yates_abilities') IS NOT NULL AS exists`,
+			);
+		if (exists) {
+			return true;
+		}
+	}
+
+	await executor.run([
+		{
+			type: "create_ability_table",
+			target: "_yates",
+			sql: "CREATE SCHEMA IF NOT EXISTS _yates;",
+		},
+		{
+			type: "create_ability_table",
+			target: "_yates._yates_abilities",
+			sql: `
 		CREATE TABLE IF NOT EXISTS _yates._yates_abilities (
 			id SERIAL PRIMARY KEY,
 			ability_model TEXT NOT NULL,
@@ -125,14 +325,17 @@ const setupAbilityTable = (prisma: PrismaClient) => {
 			created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
 			updated_at TIMESTAMP
 		);
-	`),
+	`,
+		},
 	]);
+
+	return !executor.dryRun;
 };
 
+// The values are escaped rather than passed as parameters, so that the statement can be included in a plan
 const upsertAbility = (
-	prisma: PrismaClient,
 	ability: Omit<PgYatesAbility, "id" | "created_at" | "updated_at">,
-) => {
+): PlanOperation => {
 	const {
 		ability_model,
 		ability_name,
@@ -141,14 +344,40 @@ const upsertAbility = (
 		ability_operation,
 		ability_expression,
 	} = ability;
-	return prisma.$queryRaw`
+	return {
+		type: "upsert_ability",
+		target: ability_policy_name,
+		sql: `
 		INSERT INTO _yates._yates_abilities (ability_model, ability_name, ability_policy_name, ability_description, ability_operation, ability_expression)
-		VALUES (${ability_model}, ${ability_name}, ${ability_policy_name}, ${ability_description}, ${ability_operation}, ${ability_expression})
+		VALUES (${[
+			ability_model,
+			ability_name,
+			ability_policy_name,
+			ability_description,
+			ability_operation,
+			ability_expression,
+		]
+			.map(escapeLiteral)
+			.join(", ")})
 		ON CONFLICT (ability_policy_name) DO UPDATE
 		SET ability_model = EXCLUDED.ability_model, ability_name = EXCLUDED.ability_name, ability_description = EXCLUDED.ability_description, ability_operation = EXCLUDED.ability_operation, ability_expression = EXCLUDED.ability_expression, updated_at = now();
-	`;
+	`,
+	};
 };
 
+// Creates a role if it doesn't exist, in a way that is safe to run from several servers at once
+const createRoleStatement = (role: string) => `
+	do
+	$$
+	begin
+	if not exists (select * from pg_catalog.pg_roles where rolname = '${role}') then
+		create role ${role};
+	end if;
+	end
+	$$
+	;
+`;
+
 /**
  * In PostgreSQL, the maximum length for a role or policy name is 63 bytes.
  * This limitation is derived from the value of the NAMEDATALEN configuration parameter,
@@ -179,198 +408,796 @@ export const createRoleName = (name: string) => {
 	return sanitizeSlug(hashWithPrefix("yates_role_", `${name}`));
 };
 
+// A composite role is a PG role that is granted every role in a set of roles, so that the union of their abilities can be used at once
+export const createCompositeRoleName = (names: string[]) => {
+	return sanitizeSlug(
+		hashWithPrefix("yates_composite_", uniq(names).sort().join(",")),
+	);
+};
+
+// Bypass accounts that run in "role" mode use a role with the BYPASSRLS attribute
+export const createBypassRoleName = (name: string) => {
+	return sanitizeSlug(hashWithPrefix("yates_bypass_", name));
+};
+
+// Returns a readable name for the role(s) in the context, used in errors
+const describeRoles = (ctx: RequestContext) => {
+	if (ctx.bypass !== undefined) {
+		return `bypass:${ctx.bypass}`;
+	}
+	return ctx.roles ? ctx.roles.join(", ") : ctx.role;
+};
+
+// The setting that holds the readable name of the Yates role, which can't be overwritten by the context
+const ROLE_SETTING = "yates.role";
+
+// Validates the context returned by `getContext` and resolves the PG role that should be used for the current request
+const resolveContext = (ctx: RequestContext) => {
+	let pgRole: string;
+	if (ctx.bypass !== undefined) {
+		pgRole = createBypassRoleName(ctx.bypass);
+	} else if (ctx.roles) {
+		if (ctx.roles.length === 0) {
+			throw new Error("At least one role must be provided in the context");
+		}
+		pgRole =
+			ctx.roles.length === 1
+				? createRoleName(ctx.roles[0])
+				: createCompositeRoleName(ctx.roles);
+	} else {
+		pgRole = createRoleName(ctx.role);
+	}
+	// Copy the context, so that the caller's object isn't modified when array values are encoded below
+	const context = ctx.context && { ...ctx.context };
+
+	if (context) {
+		for (const k of Object.keys(context)) {
+			if (!k.match(/^[a-z_\.]+$/)) {
+				throw new Error(
+					`Context variable "${k}" contains invalid characters. Context variables must only contain lowercase letters, numbers, periods and underscores.`,
+				);
+			}
+			if (k === ROLE_SETTING) {
+				throw new Error(
+					`Context variable "${k}" is reserved, as Yates uses it to record the role of the request.`,
+				);
+			}
+			if (
+				typeof context[k] !== "number" &&
+				typeof context[k] !== "string" &&
+				!Array.isArray(context[k])
+			) {
+				throw new Error(
+					`Context variable "${k}" must be a string, number or array. Got ${typeof context[
+						k
+					]}`,
+				);
+			}
+			if (Array.isArray(context[k])) {
+				for (const v of context[k] as unknown[]) {
+					if (typeof v !== "string") {
+						throw new Error(
+							`Context variable "${k}" must be an array of strings. Got ${typeof v}`,
+						);
+					}
+				}
+				// Cast to a JSON string so that it can be used in RLS expressions
+				context[k] = JSON.stringify(context[k]);
+			}
+		}
+	}
+
+	return { pgRole, context };
+};
+
+// Switches the transaction to the user role and sets all the context variables so that they can be used in RLS.
+// The role and context are set in a single statement using `set_config`, which is equivalent to `SET LOCAL ROLE` for the "role" setting.
+// Because every setting is local to the transaction, they don't need to be reset once the transaction has finished.
+const setRoleAndContext = async (
+	tx: Prisma.TransactionClient,
+	pgRole: string,
+	roleName: string,
+	context: Context["context"],
+) => {
+	const settings: [string, string][] = [
+		["role", pgRole],
+		// The readable name of the Yates role is also set, so that it can be recorded in the audit log
+		[ROLE_SETTING, roleName],
+		...toPairs(context).map(
+			([key, value]) => [key, value.toString()] as [string, string],
+		),
+	];
+	const setConfigCalls = settings.map(
+		(_setting, i) => `set_config($${i * 2 + 1}, $${i * 2 + 2}, true)`,
+	);
+
+	await tx.$queryRawUnsafe(
+		`SELECT ${setConfigCalls.join(", ")};`,
+		...flatten(settings),
+	);
+};
+
+// Returns the "secret" transaction ID of an interactive transaction client, so that requests can be manually attached to it
+// https://github.com/prisma/prisma/blob/4.11.0/packages/client/src/runtime/getPrismaClient.ts#L1013
+// A Yates transaction that is running
+interface ActiveTransaction {
+	tx: Prisma.TransactionClient;
+	// The masks of the role that the transaction has been switched to
+	masks: RoleMasks;
+	// Set if the transaction runs the requests of a batch transaction
+	batch?: BatchTransaction;
+}
+
+const getTransactionId = (tx: Prisma.TransactionClient) =>
+	// biome-ignore lint/suspicious/noExplicitAny: This is a private API, so not much we can do about it
+	(tx as any)[Symbol.for("prisma.client.transaction.id")];
+
+// The type of the Yates `$transaction` method. The transaction client of an interactive transaction is typed as
+// the client that `$transaction` was called on, as it has the same extensions.
+type YatesTransaction = {
+	<P extends Prisma.PrismaPromise<unknown>[]>(
+		arg: [...P],
+		options?: { isolationLevel?: Prisma.TransactionIsolationLevel },
+	): Promise<Types.Utils.UnwrapTuple<P>>;
+	<T, R>(
+		this: T,
+		fn: (tx: Omit<T, ITXClientDenyList>) => Promise<R>,
+		options?: {
+			maxWait?: number;
+			timeout?: number;
+			isolationLevel?: Prisma.TransactionIsolationLevel;
+		},
+	): Promise<R>;
+};
+
+// Creates a transaction client for a transaction from the given client, so that it has the extensions of that client.
+// This is how Prisma creates the client that is passed to interactive transaction callbacks.
+// See https://github.com/prisma/prisma/blob/5.11.0/packages/client/src/runtime/getPrismaClient.ts
+const createTransactionClient = (
+	client: unknown,
+	tx: Prisma.TransactionClient,
+): Prisma.TransactionClient =>
+	// biome-ignore lint/suspicious/noExplicitAny: This is a private API, so not much we can do about it
+	(client as any)._createItxClient({ kind: "itx", id: getTransactionId(tx) });
+
+/**
+ * The methods that Yates adds to the Prisma client
+ */
+export interface YatesClientMethods {
+	/**
+	 * Returns a client that runs every query with the given role and context, ignoring `getContext`.
+	 * This is useful for background jobs, scripts and tests that need to act as a specific role.
+	 */
+	$as<T>(this: T, ctx: Context): T;
+	/**
+	 * Queries the audit log of writes made to audited models, newest events first.
+	 * The query is run with the current role, so it is only permitted if the role has been granted access to the audit log, or if RLS is bypassed.
+	 */
+	$auditLog(query?: AuditLogQuery): Promise<AuditLogEntry[]>;
+	/**
+	 * Checks if the current role can perform an operation on a row, without changing any data.
+	 * The operation is run inside a transaction that is always rolled back.
+	 * For INSERT, `row` is the data for the candidate row, otherwise it is the row ID or a `where` clause.
+	 */
+	$can(model: Models, operation: Operation, row: CanRow): Promise<boolean>;
+}
+
+// The client returned by `setup` and `createClient`. It is typed as a PrismaClient rather than as an extended client,
+// so that it can still be passed to code that expects a PrismaClient.
+export type YatesClient = PrismaClient & YatesClientMethods;
+
 // This uses client extensions to set the role and context for the current user so that RLS can be applied
 export const createClient = (
 	prisma: PrismaClient,
 	getContext: GetContextFn,
-	options: ClientOptions = {},
+	options: CreateClientOptions = {},
+): YatesClient =>
+	extendClient(prisma, getContext, options) as unknown as YatesClient;
+
+// Returns the extended client, with the types that Prisma derives from the extension
+const extendClient = (
+	prisma: PrismaClient,
+	getContext: GetContextFn,
+	options: CreateClientOptions,
 ) => {
 	// Set default options
-	const { txMaxWait = 30000, txTimeout = 30000 } = options;
-	const client = prisma.$extends({
-		name: "Yates client",
-		query: {
-			$allModels: {
-				async $allOperations(params) {
-					const { model, args, query, operation } = params;
-					if (!model) {
-						// If the model is not defined, we can't apply RLS
-						// This can occur when you are making a call with Prisma's $queryRaw method
-						// biome-ignore lint/suspicious/noExplicitAny: See above
-						return (query as any)(args);
-					}
+	const {
+		txMaxWait = 30000,
+		txTimeout = 30000,
+		rawQueries = "skip",
+		tracer = noopTracer,
+		strict = false,
+		anonymousRole,
+		bypass = {},
+		isolationLevel,
+		retry,
+		fieldRestrictions = {},
+		maskRestrictions = {},
+		tableSchemas,
+	} = options;
+
+	const runtimeDataModel = getRuntimeDataModel(prisma);
+	// The names of the model delegates on the client, e.g. "post"
+	const modelDelegates = Object.keys(runtimeDataModel.models).map(lowerFirst);
+
+	// The context of clients returned by `$as`, which is set while their requests are run
+	const contextStorage = new AsyncLocalStorage<{ context: Context }>();
+
+	// The composite roles that are known to exist, so that they only need to be created once
+	const compositeRoles = new Set<string>();
+
+	// The Yates transactions that are running, keyed by transaction ID, so that the queries attached to them
+	// can be masked and the queries of batch transactions can be run again if the transaction is retried
+	const activeTransactions = new Map<string, ActiveTransaction>();
+
+	// Composite roles are created on demand and granted every role in the set, as the combinations
+	// of roles that are used at runtime can't be known ahead of time.
+	const ensureCompositeRole = async (pgRole: string, roles: string[]) => {
+		if (compositeRoles.has(pgRole)) {
+			return;
+		}
 
-					const ctx = getContext();
+		debug("Creating composite role", pgRole, "for", roles.join(", "));
+		await prisma.$transaction([
+			takeLock(prisma),
+			prisma.$executeRawUnsafe(createRoleStatement(pgRole)),
+			prisma.$executeRawUnsafe(
+				`GRANT ${uniq(roles).map(createRoleName).join(", ")} TO ${pgRole}`,
+			),
+		]);
 
-					// If ctx is null, the middleware is explicitly skipped
-					if (ctx === null) {
-						return query(args);
-					}
+		compositeRoles.add(pgRole);
+	};
+
+	// Returns the fields that the role(s) can access on column-restricted tables
+	const getAllowedFieldsFor = (ctx: RequestContext) => {
+		if (ctx.bypass !== undefined) {
+			return undefined;
+		}
+		const roles = ctx.roles ? ctx.roles : [ctx.role];
+		return combineAllowedFields(
+			roles.map((role) => fieldRestrictions[role] ?? {}),
+		);
+	};
+
+	// Returns the masks that apply to the role(s)
+	const getMasksFor = (ctx: RequestContext) => {
+		if (ctx.bypass !== undefined) {
+			return {};
+		}
+		const roles = ctx.roles ? ctx.roles : [ctx.role];
+		return combineRoleMasks(roles.map((role) => maskRestrictions[role] ?? {}));
+	};
 
-					const { role, context } = ctx;
+	// Records that a bypass account skipped RLS, so that bypasses are never silent
+	const reportBypass = async (
+		name: string,
+		account: BypassAccount,
+		request: { model?: string; operation: string },
+	) => {
+		debug(
+			"Bypassing RLS with account",
+			name,
+			"for",
+			request.model ?? "",
+			request.operation,
+			`(${account.reason})`,
+		);
+		tracer
+			.startSpan("yates.bypass", {
+				"yates.bypass": name,
+				"yates.bypass.reason": account.reason,
+				"yates.bypass.mode": account.mode ?? "connection",
+				"yates.model": request.model,
+				"yates.operation": request.operation,
+			})
+			.end();
+
+		if (account.audit) {
+			await recordBypass(prisma, {
+				...request,
+				schema: request.model ? tableSchemas?.[request.model] : undefined,
+				role: `bypass:${name}`,
+				reason: account.reason,
+			});
+		}
+	};
 
-					const pgRole = createRoleName(role);
+	// Returns the context for the current request, with anonymous requests mapped to the anonymous role.
+	// Returns null if RLS should be skipped.
+	const getRequestContext = async (request: {
+		model?: string;
+		operation: string;
+	}): Promise<RequestContext | null> => {
+		// Clients returned by `$as` run their requests with a context store, which takes precedence over getContext
+		const scope = contextStorage.getStore();
+		const ctx = scope ? scope.context : await getContext();
+
+		if (ctx === null) {
+			if (strict) {
+				throw new Error(
+					"getContext returned null, but RLS can't be bypassed in strict mode. Use the base Prisma client to bypass RLS.",
+				);
+			}
+			return null;
+		}
 
-					if (context) {
-						for (const k of Object.keys(context)) {
-							if (!k.match(/^[a-z_\.]+$/)) {
-								throw new Error(
-									`Context variable "${k}" contains invalid characters. Context variables must only contain lowercase letters, numbers, periods and underscores.`,
-								);
-							}
-							if (
-								typeof context[k] !== "number" &&
-								typeof context[k] !== "string" &&
-								!Array.isArray(context[k])
-							) {
-								throw new Error(
-									`Context variable "${k}" must be a string, number or array. Got ${typeof context[
-										k
-									]}`,
-								);
-							}
-							if (Array.isArray(context[k])) {
-								for (const v of context[k] as unknown[]) {
-									if (typeof v !== "string") {
-										throw new Error(
-											`Context variable "${k}" must be an array of strings. Got ${typeof v}`,
-										);
-									}
+		if (ctx.anonymous) {
+			if (!anonymousRole) {
+				throw new Error(
+					"getContext returned an anonymous context, but no anonymousRole was passed to setup",
+				);
+			}
+			return { role: anonymousRole, context: ctx.context };
+		}
+
+		if (ctx.bypass !== undefined) {
+			const account = bypass[ctx.bypass];
+			if (!account) {
+				throw new Error(
+					`getContext returned an unknown bypass account: ${ctx.bypass}`,
+				);
+			}
+			await reportBypass(ctx.bypass, account, request);
+			// In "role" mode, the request is still run inside a Yates transaction, using the bypass role
+			return account.mode === "role" ? ctx : null;
+		}
+
+		return ctx;
+	};
+
+	// Runs a query in a Yates transaction and masks its result.
+	// Masks are applied inside the transaction, so that mask expressions can use the context.
+	const runInTransaction = async (
+		// biome-ignore lint/suspicious/noExplicitAny: The params are provided by Prisma's query extension API
+		params: any,
+		{ tx, masks }: ActiveTransaction,
+	) => {
+		const { model, operation, args, query, __internalParams } = params;
+		if (model) {
+			checkMaskedAggregation(model, operation, args, masks);
+		}
+
+		// Inconveniently, the `query` function will not run inside an interactive transaction by default.
+		// We need to pass the internal params with the "secret" transaction ID attached as the second argument.
+		// This ensures that the query will run inside the transaction, along with any query extensions that were applied after Yates.
+		// See https://github.com/prisma/prisma/blob/5.11.0/packages/client/src/runtime/core/extensions/applyQueryExtensions.ts
+		const result = await query(args, {
+			...__internalParams,
+			transaction: {
+				kind: "itx",
+				id: getTransactionId(tx),
+			},
+		});
+
+		return model
+			? applyMasks(
+					tx,
+					runtimeDataModel,
+					model,
+					operation,
+					result,
+					masks,
+					tableSchemas,
+			  )
+			: result;
+	};
+
+	// Runs the callback inside an interactive transaction that has been switched to the user role and context
+	const runAsRole = async <T>(
+		ctx: RequestContext,
+		request: { model?: string; operation: string },
+		fn: (tx: Prisma.TransactionClient) => Promise<T>,
+		txOptions?: {
+			maxWait?: number;
+			timeout?: number;
+			isolationLevel?: Prisma.TransactionIsolationLevel;
+		},
+		batch?: BatchTransaction,
+	) => {
+		const { pgRole, context } = resolveContext(ctx);
+		// Permission checks write back the values they read, so they must not be masked
+		const masks = request.operation === "$can" ? {} : getMasksFor(ctx);
+		// Context values are never added to spans, as they are likely to contain sensitive data
+		const attributes = {
+			"yates.role": describeRoles(ctx),
+			"yates.model": request.model,
+			"yates.operation": request.operation,
+			"yates.context_keys": Object.keys(context ?? {}),
+		};
+
+		if (ctx.roles && ctx.roles.length > 1) {
+			const roles = ctx.roles;
+			await withSpan(tracer, "yates.composite_role", attributes, () =>
+				ensureCompositeRole(pgRole, roles),
+			);
+		}
+
+		// The whole transaction is retried, so that the role and context are set again on every attempt
+		return withRetry(
+			retry,
+			async () => {
+				const acquireSpan = tracer.startSpan(
+					"yates.transaction.acquire",
+					attributes,
+				);
+				let acquired = false;
+
+				try {
+					return await prisma.$transaction(
+						async (tx) => {
+							acquired = true;
+							acquireSpan.end();
+
+							await withSpan(tracer, "yates.prelude", attributes, async () => {
+								try {
+									await setRoleAndContext(
+										tx,
+										pgRole,
+										describeRoles(ctx),
+										context,
+									);
+								} catch (e) {
+									// The composite role may have been cleaned up by another setup run,
+									// so make sure it is recreated on the next query.
+									compositeRoles.delete(pgRole);
+									throw e;
 								}
-								// Cast to a JSON string so that it can be used in RLS expressions
-								context[k] = JSON.stringify(context[k]);
+							});
+
+							const id = getTransactionId(tx);
+							activeTransactions.set(id, { tx, masks, batch });
+							try {
+								return await withSpan(tracer, "yates.query", attributes, () =>
+									fn(tx),
+								);
+							} finally {
+								activeTransactions.delete(id);
 							}
-						}
+						},
+						{
+							maxWait: txMaxWait,
+							timeout: txTimeout,
+							isolationLevel,
+							...txOptions,
+						},
+					);
+				} catch (e) {
+					if (!acquired) {
+						acquireSpan.recordException(e);
+						acquireSpan.end();
 					}
+					throw e;
+				}
+			},
+			batch && (() => batch.canRetry()),
+		);
+	};
 
-					try {
-						// Because batch transactions inside a prisma client query extension can run out of order if used with async middleware,
-						// we need to run the logic inside an interactive transaction, however this brings a different set of problems in that the
-						// main query will no longer automatically run inside the transaction. We resolve this issue by manually executing the prisma request.
-						// See https://github.com/prisma/prisma/issues/18276
-						const queryResults = await prisma.$transaction(
-							async (tx) => {
-								// Switch to the user role, We can't use a prepared statement here, due to limitations in PG not allowing prepared statements to be used in SET ROLE
-								await tx.$queryRawUnsafe(`SET ROLE ${pgRole}`);
-								// Now set all the context variables using `set_config` so that they can be used in RLS
-								for (const [key, value] of toPairs(context)) {
-									await tx.$queryRaw`SELECT set_config(${key}, ${value.toString()},  true);`;
-								}
+	// Interactive and batch transactions are run inside a single Yates transaction, so that the role and context
+	// are only set once and every query in the transaction can be committed or rolled back together.
+	const $transaction = async (
+		// The client that `$transaction` was called on, which has the extensions applied after Yates
+		client: unknown,
+		// biome-ignore lint/suspicious/noExplicitAny: The argument types are provided by the YatesTransaction cast below
+		arg: any,
+		// biome-ignore lint/suspicious/noExplicitAny: See above
+		txOptions?: any,
+	) => {
+		const ctx = await getRequestContext({ operation: "$transaction" });
+
+		// If ctx is null, the middleware is explicitly skipped
+		if (ctx === null) {
+			return typeof arg === "function"
+				? prisma.$transaction(
+						(tx) => arg(createTransactionClient(client, tx)),
+						txOptions,
+				  )
+				: prisma.$transaction(arg, txOptions);
+		}
 
-								// Inconveniently, the `query` function will not run inside an interactive transaction.
-								// We need to manually reconstruct the query, and attached the "secret" transaction ID.
-								// This ensures that the query will run inside the transaction AND that middlewares will not be re-applied
-
-								// https://github.com/prisma/prisma/blob/4.11.0/packages/client/src/runtime/getPrismaClient.ts#L1013
-								// biome-ignore lint/suspicious/noExplicitAny: This is a private API, so not much we can do about it
-								const txId = (tx as any)[
-									Symbol.for("prisma.client.transaction.id")
-								];
-
-								// See https://github.com/prisma/prisma/blob/4.11.0/packages/client/src/runtime/getPrismaClient.ts#L860
-								// biome-ignore lint/suspicious/noExplicitAny: This is a private API, so not much we can do about it
-								const __internalParams = (params as any).__internalParams;
-								const result = await prisma._executeRequest({
-									...__internalParams,
-									transaction: {
-										kind: "itx",
-										id: txId,
-									},
-								});
-								// Switch role back to admin user
-								await tx.$queryRawUnsafe("SET ROLE none");
-
-								return result;
-							},
-							{
-								maxWait: txMaxWait,
-								timeout: txTimeout,
-							},
-						);
+		try {
+			if (typeof arg === "function") {
+				// The callback is run outside of the `$as` context, so that queries made with other clients inside it use their own context.
+				// Its transaction client is created from the calling client, so that it keeps the extensions of that client,
+				// and its queries are masked by the Yates query extension.
+				return await runAsRole(
+					ctx,
+					{ operation: "$transaction" },
+					(tx) =>
+						contextStorage.exit(() => arg(createTransactionClient(client, tx))),
+					txOptions,
+				);
+			}
 
-						return queryResults;
-					} catch (e) {
-						// Normalize RLS errors to make them a bit more readable.
-						if (
-							e.message?.includes(
-								"new row violates row-level security policy for table",
-							)
-						) {
-							throw new Error(
-								`You do not have permission to perform this action: ${model}.${operation}(...)`,
-							);
-						}
+			// Batch requests are attached to the interactive transaction and run in order, in the same way
+			// that Prisma runs them inside a batch transaction.
+			const batch = new BatchTransaction(arg);
+			try {
+				await runAsRole(
+					ctx,
+					{ operation: "$transaction" },
+					(tx) => batch.run(tx, { kind: "itx", id: getTransactionId(tx) }),
+					txOptions,
+					batch,
+				);
+			} catch (e) {
+				batch.rollback(e);
+				throw e;
+			}
+			return await batch.commit();
+		} catch (e) {
+			throw normalizeError(
+				e,
+				{
+					operation: "$transaction",
+					role: describeRoles(ctx),
+				},
+				getAllowedFieldsFor(ctx),
+			);
+		}
+	};
+
+	// Runs a single Prisma request inside a Yates transaction
+	const runOperation = async (
+		// biome-ignore lint/suspicious/noExplicitAny: The params are provided by Prisma's query extension API
+		params: any,
+		request: { model?: string; operation: string },
+	) => {
+		const { args, query, __internalParams } = params;
+
+		// If the query is part of a batch transaction, it has already been attached to a Yates transaction
+		// that has the role and context set, so it only needs to be masked.
+		if (__internalParams?.transaction?.kind === "itx") {
+			const active = activeTransactions.get(__internalParams.transaction.id);
+			if (!active) {
+				return query(args);
+			}
+			// The batch runs the query, so that it can be run again in a new transaction if the transaction is retried
+			return active.batch
+				? active.batch.add((tx) => runInTransaction(params, { ...active, tx }))
+				: runInTransaction(params, active);
+		}
 
-						throw e;
+		const ctx = await getRequestContext(request);
+
+		// If ctx is null, the middleware is explicitly skipped
+		if (ctx === null) {
+			return query(args);
+		}
+
+		try {
+			// Because batch transactions inside a prisma client query extension can run out of order if used with async middleware,
+			// we need to run the logic inside an interactive transaction, however this brings a different set of problems in that the
+			// main query will no longer automatically run inside the transaction. We resolve this issue by manually executing the prisma request.
+			// See https://github.com/prisma/prisma/issues/18276
+			const masks = getMasksFor(ctx);
+			const queryResults = await runAsRole(ctx, request, (tx) =>
+				runInTransaction(params, { tx, masks }),
+			);
+
+			return queryResults;
+		} catch (e) {
+			throw normalizeError(
+				e,
+				{ ...request, role: describeRoles(ctx) },
+				getAllowedFieldsFor(ctx),
+			);
+		}
+	};
+
+	// Raw queries are only run inside a Yates transaction if they have been opted in to,
+	// or in strict mode, where nothing is run as the connection role
+	const rawOperation = (
+		// biome-ignore lint/suspicious/noExplicitAny: The params are provided by Prisma's query extension API
+		params: any,
+	) => {
+		// Raw queries in a batch transaction are handed over to the batch, so that they can be run again if the transaction is retried
+		if (
+			rawQueries !== "enforce" &&
+			!strict &&
+			params.__internalParams?.transaction?.kind !== "itx"
+		) {
+			return params.query(params.args);
+		}
+
+		return runOperation(params, { operation: params.operation });
+	};
+
+	const client = prisma.$extends({
+		name: "Yates client",
+		client: {
+			$transaction: function (
+				this: unknown,
+				// biome-ignore lint/suspicious/noExplicitAny: See $transaction
+				arg: any,
+				// biome-ignore lint/suspicious/noExplicitAny: See $transaction
+				txOptions?: any,
+			) {
+				return $transaction(Prisma.getExtensionContext(this), arg, txOptions);
+			} as YatesTransaction,
+			$as<T>(this: T, ctx: Context): T {
+				// The context is bound to the current client, so that extensions applied after Yates are kept
+				return scopeClient(
+					Prisma.getExtensionContext(this) as T & object,
+					(fn) => contextStorage.run({ context: ctx }, fn),
+					modelDelegates,
+				);
+			},
+			async $auditLog(query?: AuditLogQuery): Promise<AuditLogEntry[]> {
+				const ctx = await getRequestContext({ operation: "$auditLog" });
+
+				// If ctx is null, RLS is bypassed, so the audit log is queried with the connection role
+				if (ctx === null) {
+					return queryAuditLog(prisma, query);
+				}
+
+				try {
+					return await runAsRole(ctx, { operation: "$auditLog" }, (tx) =>
+						selectAuditLog(prisma, tx, query),
+					);
+				} catch (e) {
+					throw normalizeError(e, {
+						operation: "$auditLog",
+						role: describeRoles(ctx),
+					});
+				}
+			},
+			async $can(
+				model: Models,
+				operation: Operation,
+				row: CanRow,
+			): Promise<boolean> {
+				const ctx = await getRequestContext({ model, operation: "$can" });
+
+				// If ctx is null, RLS is bypassed, so every operation is permitted
+				if (ctx === null) {
+					return true;
+				}
+
+				try {
+					await runAsRole(ctx, { model, operation: "$can" }, async (tx) => {
+						throw new CanRollback(
+							await checkPermission(
+								prisma,
+								tx,
+								model,
+								operation,
+								row,
+								tableSchemas,
+							),
+						);
+					});
+				} catch (e) {
+					if (e instanceof CanRollback) {
+						return e.result;
 					}
+					throw normalizeError(
+						e,
+						{
+							model,
+							operation: "$can",
+							role: describeRoles(ctx),
+						},
+						getAllowedFieldsFor(ctx),
+					);
+				}
+
+				// The callback always throws, so this is unreachable
+				throw new Error("Permission check was not rolled back");
+			},
+		},
+		query: {
+			$allModels: {
+				async $allOperations(params) {
+					const { model, args, query, operation } = params;
+					if (!model) {
+						// If the model is not defined, we can't apply RLS
+						// This can occur when you are making a call with Prisma's $queryRaw method
+						// biome-ignore lint/suspicious/noExplicitAny: See above
+						return (query as any)(args);
+					}
+
+					return runOperation(params, { model, operation });
 				},
 			},
+			$queryRaw: rawOperation,
+			$executeRaw: rawOperation,
+			$queryRawUnsafe: rawOperation,
+			$executeRawUnsafe: rawOperation,
 		},
 	});
 
 	return client;
 };
 
+// Creates the policy if it doesn't exist, or replaces its expression if it does, so that the statement can be run more than once
+const createPolicyStatement = ({
+	policyName,
+	table,
+	schema,
+	operation,
+	roleName,
+	expression,
+}: {
+	policyName: string;
+	table: string;
+	schema: string;
+	operation: string;
+	roleName: string;
+	expression: string;
+}) => {
+	const qualifiedTable = qualifyTable(table, schema);
+	// If the operation is an insert, we need to use a different syntax as the "WITH CHECK" expression is used.
+	const check = operation === "INSERT" ? "WITH CHECK" : "USING";
+	return `
+	do
+	$yates$
+	begin
+	if not exists (select * from pg_catalog.pg_policies where policyname = ${escapeLiteral(
+		policyName,
+	)} and schemaname = ${escapeLiteral(schema)} and tablename = ${escapeLiteral(
+		table,
+	)}) then
+		CREATE POLICY ${policyName} ON ${qualifiedTable} FOR ${operation} TO ${roleName} ${check} (${expression});
+	else
+		ALTER POLICY ${policyName} ON ${qualifiedTable} TO ${roleName} ${check} (${expression});
+	end if;
+	end
+	$yates$
+	;
+	`;
+};
+
 const setRLS = async <ContextKeys extends string, YModel extends Models>(
-	prisma: PrismaClient,
+	executor: Executor,
+	model: string,
 	table: string,
+	schema: string,
 	roleName: string,
 	slug: string,
 	ability: Ability<ContextKeys, YModel>,
+	existingAbility: PgYatesAbility | undefined,
 ) => {
 	const { operation, expression: rawExpression, description } = ability;
 	if (!rawExpression) {
 		throw new Error("Expression must be defined for RLS abilities");
 	}
 
-	// Take a lock and run the RLS setup in a transaction to prevent conflicts
-	// in a multi-server environment
-	await prisma.$transaction(async (tx) => {
-		await takeLock(tx as PrismaClient);
-		// Check if RLS exists
-		const policyName = roleName;
-		const existingAbilities: PgYatesAbility[] = await tx.$queryRaw`
-			select * from _yates._yates_abilities where ability_model = ${table} and ability_policy_name = ${policyName}
-		`;
-		const existingAbility = existingAbilities[0];
-
-		let shouldUpdateAbilityTable = false;
-
-		// IF RLS doesn't exist or expression is different, set RLS
-		if (!existingAbility) {
-			debug("Creating RLS policy for", roleName, "on", table, "for", operation);
-			const expression = await expressionToSQL(rawExpression, table);
-
-			// If the operation is an insert or update, we need to use a different syntax as the "WITH CHECK" expression is used.
-			if (operation === "INSERT") {
-				await tx.$queryRawUnsafe(`
-				CREATE POLICY ${policyName} ON "public"."${table}" FOR ${operation} TO ${roleName} WITH CHECK (${expression});
-			`);
-			} else {
-				await tx.$queryRawUnsafe(`
-				CREATE POLICY ${policyName} ON "public"."${table}" FOR ${operation} TO ${roleName} USING (${expression});
-			`);
-			}
-			shouldUpdateAbilityTable = true;
-		} else if (
-			existingAbility.ability_expression !== rawExpression.toString()
-		) {
-			debug("Updating RLS policy for", roleName, "on", table, "for", operation);
-			const expression = await expressionToSQL(rawExpression, table);
-			if (operation === "INSERT") {
-				await tx.$queryRawUnsafe(`
-				ALTER POLICY ${policyName} ON "public"."${table}" TO ${roleName} WITH CHECK (${expression});
-			`);
-			} else {
-				await tx.$queryRawUnsafe(`
-				ALTER POLICY ${policyName} ON "public"."${table}" TO ${roleName} USING (${expression});
-			`);
-			}
-			shouldUpdateAbilityTable = true;
-		}
+	const qualifiedTable = qualifyTable(table, schema);
+	const policyName = roleName;
+	const operations: PlanOperation[] = [];
+
+	// IF RLS doesn't exist or expression is different, set RLS
+	if (!existingAbility) {
+		debug("Creating RLS policy for", roleName, "on", table, "for", operation);
+		const expression = await expressionToSQL(rawExpression, model, schema);
+		operations.push({
+			type: "create_policy",
+			target: policyName,
+			sql: createPolicyStatement({
+				policyName,
+				table,
+				schema,
+				operation,
+				roleName,
+				expression,
+			}),
+		});
+	} else if (existingAbility.ability_expression !== rawExpression.toString()) {
+		debug("Updating RLS policy for", roleName, "on", table, "for", operation);
+		const expression = await expressionToSQL(rawExpression, model, schema);
+		const check = operation === "INSERT" ? "WITH CHECK" : "USING";
+		operations.push({
+			type: "alter_policy",
+			target: policyName,
+			sql: `ALTER POLICY ${policyName} ON ${qualifiedTable} TO ${roleName} ${check} (${expression});`,
+		});
+	}
 
-		if (shouldUpdateAbilityTable) {
-			await upsertAbility(tx as PrismaClient, {
+	if (operations.length) {
+		operations.push(
+			upsertAbility({
 				ability_model: table,
 				ability_name: slug,
 				ability_policy_name: policyName,
@@ -379,39 +1206,74 @@ const setRLS = async <ContextKeys extends string, YModel extends Models>(
 				// We store the string representation of the expression so that
 				// we can compare it later without having to recompute the SQL
 				ability_expression: rawExpression.toString(),
-			});
-		}
-	});
+			}),
+		);
+	}
+
+	// Take a lock and run the RLS setup in a transaction to prevent conflicts
+	// in a multi-server environment
+	await executor.run(operations);
 };
 
-export const createRoles = async <
+// Revokes every Yates role from a user role, apart from the given roles, which are the roles it should be granted directly
+const revokeOldRolesStatement = (role: string, rlsRoles: string[]) => `
+	do
+	$yates$
+	declare
+		old_role record;
+	begin
+	for old_role in
+		select m.roleid::regrole::text as rolname
+		from pg_catalog.pg_auth_members m
+		where m.member = '${role}'::regrole
+			and m.roleid::regrole::text like 'yates%'
+			and m.roleid::regrole::text <> all (array[${rlsRoles
+				.map((rlsRole) => `'${rlsRole}'`)
+				.join(", ")}]::text[])
+	loop
+		execute format('REVOKE %I FROM ${role}', old_role.rolname);
+	end loop;
+	end
+	$yates$
+	;
+`;
+
+interface CreateRolesParams<
 	ContextKeys extends string,
 	YModels extends Models,
-	K extends CustomAbilities = CustomAbilities,
-	T = DefaultAbilities<ContextKeys, YModels> & K,
->({
-	prisma,
-	customAbilities,
-	getRoles,
-}: {
+	K extends CustomAbilities,
+	T,
+> {
 	prisma: PrismaClient;
 	customAbilities?: Partial<K>;
-	getRoles: (abilities: T) => {
-		[role: string]: AllAbilities<ContextKeys, YModels>[] | "*";
-	};
-}) => {
+	anonymousRole?: string;
+	prune?: PruneMode;
+	tracer?: YatesTracer;
+	getRoles: (abilities: T) => Roles<ContextKeys, YModels>;
+}
+
+// Compares the configured roles and abilities with the catalog, and passes the statements that are needed to bring them in line to the executor.
+// When compiling, the catalog is treated as empty, apart from the tables that the models use.
+const syncRoles = async <
+	ContextKeys extends string,
+	YModels extends Models,
+	K extends CustomAbilities,
+	T,
+>(
+	{
+		prisma,
+		customAbilities,
+		getRoles,
+		anonymousRole,
+		prune = "off",
+		tracer = noopTracer,
+	}: CreateRolesParams<ContextKeys, YModels, K, T>,
+	executor: Executor,
+) => {
 	const abilities: Partial<DefaultAbilities> = {};
-	// See https://github.com/prisma/prisma/discussions/14777
-	// We are reaching into the prisma internals to get the data model.
-	// This is a bit sketchy, but we can get the internal type definition from the runtime library
-	// and there is even a test case in prisma that checks that this value is exported
-	// See https://github.com/prisma/prisma/blob/5.1.0/packages/client/tests/functional/extensions/pdp.ts#L51
-	// biome-ignore lint/suspicious/noExplicitAny: This is a private API, so not much we can do about it
-	const runtimeDataModel = (prisma as any)
-		._runtimeDataModel as RuntimeDataModel;
-	const models = Object.keys(runtimeDataModel.models).map(
-		(m) => runtimeDataModel.models[m].dbName || m,
-	) as Models[];
+	const runtimeDataModel = getRuntimeDataModel(prisma);
+	// Abilities are keyed by Prisma model name, and the table names are only used in the SQL that is generated
+	const models = Object.keys(runtimeDataModel.models) as Models[];
 	if (customAbilities) {
 		const diff = difference(Object.keys(customAbilities), models);
 		if (diff.length) {
@@ -472,21 +1334,69 @@ export const createRoles = async <
 		}
 	}
 
-	debug("Setting up ability table");
-	await setupAbilityTable(prisma);
-
+	// The roles are validated before anything is changed in the database
 	const roles = getRoles(abilities as T);
+	if (anonymousRole && !roles[anonymousRole]) {
+		throw new Error(
+			`Anonymous role "${anonymousRole}" must be one of the roles returned by getRoles`,
+		);
+	}
+	// Roles are created after the roles they extend, so that they can be granted to them
+	const sortedRoles = sortRoles(roles);
+
+	debug("Setting up ability table");
+	const hasAbilityTable = await withSpan(
+		tracer,
+		"yates.setup.ability_table",
+		{},
+		() => setupAbilityTable(prisma, executor),
+	);
+	const tableSchemas = await getTableSchemas(prisma);
 
-	const pgRoles: PgRole[] = await prisma.$queryRawUnsafe(`
+	const compiling = executor.mode === "compile";
+	const pgRoles: PgRole[] = compiling
+		? []
+		: await prisma.$queryRawUnsafe(`
 		select * from pg_catalog.pg_roles where rolname like 'yates%'
 	`);
-	const existingAbilities: PgYatesAbility[] = await prisma.$queryRawUnsafe(`
+	const existingAbilities: PgYatesAbility[] = hasAbilityTable
+		? await prisma.$queryRawUnsafe(`
 		select * from _yates._yates_abilities;
+	`)
+		: [];
+	// Roles that have column-level privileges, so that ability roles can be reset if their fields are removed
+	const columnGrantees: PgRole[] = compiling
+		? []
+		: await prisma.$queryRawUnsafe(`
+		select distinct acl.grantee::regrole::text as rolname
+		from pg_catalog.pg_attribute, aclexplode(attacl) as acl
+		where attacl is not null
 	`);
+	// The tables that already have RLS enabled
+	const rlsTables: Array<{ schema_name: string; table_name: string }> =
+		compiling
+			? []
+			: await prisma.$queryRawUnsafe(`
+		select n.nspname as schema_name, c.relname as table_name
+		from pg_catalog.pg_class c
+		join pg_catalog.pg_namespace n on n.oid = c.relnamespace
+		where c.relrowsecurity
+	`);
+	const rlsEnabled = new Set(
+		rlsTables.map(({ schema_name, table_name }) =>
+			qualifyTable(table_name, schema_name),
+		),
+	);
+	// The table and operation pairs that have at least one column-restricted ability, in the format "table:operation"
+	const restrictedOperations = new Set<string>();
+	// The fields each role can access on column-restricted tables, which are used to explain permission errors
+	const fieldRestrictions: FieldRestrictions = {};
+	// The masked fields for each role, which are applied to query results by the client
+	const maskRestrictions: MaskRestrictions = {};
 
 	// If this a first time setup, we may need to import existing abilities from
 	// the pg_policies table into the new abilities lookup table.
-	if (existingAbilities.length === 0) {
+	if (existingAbilities.length === 0 && !compiling) {
 		debug('No existing abilities found, importing from "pg_policies" table');
 		const pgPolicies: PgPolicy[] = await prisma.$queryRawUnsafe(`
 			select * from pg_catalog.pg_policies where policyname like 'yates%'
@@ -502,170 +1412,561 @@ export const createRoles = async <
 				ability_expression: policy.qual ?? policy.with_check ?? "",
 			}));
 
-			await prisma.$transaction([
-				takeLock(prisma),
-				...migratedAbilities.map((ma) => upsertAbility(prisma, ma)),
-			]);
+			await executor.run(migratedAbilities.map(upsertAbility));
 
 			existingAbilities.push(...(migratedAbilities as PgYatesAbility[]));
 		}
 	}
 
-	// For each of the models and abilities, create a role and a corresponding RLS policy
-	// We can then mix & match these roles to create a user's permissions by granting them to a user role (like SUPER_ADMIN)
-	for (const model in abilities) {
-		const table = model;
+	await withSpan(
+		tracer,
+		"yates.setup.policies",
+		{ "yates.models": Object.keys(abilities) },
+		async () => {
+			// For each of the models and abilities, create a role and a corresponding RLS policy
+			// We can then mix & match these roles to create a user's permissions by granting them to a user role (like SUPER_ADMIN)
+			for (const model in abilities) {
+				const table = getTableName(runtimeDataModel, model);
+				const qualifiedTable = qualifyTable(table, tableSchemas[model]);
+
+				if (!rlsEnabled.has(qualifiedTable)) {
+					await executor.run([
+						{
+							type: "enable_rls",
+							target: qualifiedTable,
+							sql: `ALTER table ${qualifiedTable} enable row level security;`,
+						},
+					]);
+				}
+
+				for (const slug in abilities[model as keyof typeof abilities]) {
+					const ability =
+						// biome-ignore lint/style/noNonNullAssertion: TODO fix this
+						abilities[model as keyof typeof abilities]![slug as CRUDOperations];
 
-		await prisma.$transaction([
-			takeLock(prisma),
-			prisma.$queryRawUnsafe(
-				`ALTER table "${table}" enable row level security;`,
-			),
-		]);
+					if (!VALID_OPERATIONS.includes(ability.operation)) {
+						throw new Error(`Invalid operation: ${ability.operation}`);
+					}
 
-		for (const slug in abilities[model as keyof typeof abilities]) {
-			const ability =
-				// biome-ignore lint/style/noNonNullAssertion: TODO fix this
-				abilities[model as keyof typeof abilities]![slug as CRUDOperations];
+					const roleName = createAbilityName(model, slug);
+
+					// Check if role already exists
+					if (
+						pgRoles.find(
+							(role: { rolname: string }) => role.rolname === roleName,
+						)
+					) {
+						debug("Role already exists", roleName);
+					} else {
+						await executor.run([
+							{
+								type: "create_role",
+								target: roleName,
+								sql: createRoleStatement(roleName),
+							},
+							{
+								type: "grant",
+								target: roleName,
+								sql: `GRANT ${ability.operation} ON ${qualifiedTable} TO ${roleName};`,
+							},
+						]);
+					}
 
-			if (!VALID_OPERATIONS.includes(ability.operation)) {
-				throw new Error(`Invalid operation: ${ability.operation}`);
-			}
+					if (ability.fields) {
+						const columns = getGrantColumns(
+							runtimeDataModel,
+							model,
+							slug,
+							ability,
+						);
+						restrictedOperations.add(`${table}:${ability.operation}`);
+						const grantedColumns = compiling
+							? []
+							: await getGrantedColumns(
+									prisma,
+									roleName,
+									qualifiedTable,
+									ability.operation,
+							  );
+						if (
+							grantedColumns === null ||
+							xor(grantedColumns.map(escapeIdentifier), columns).length
+						) {
+							// Revoking the table-level privilege also revokes any existing column-level privileges, so that they can be replaced
+							await executor.run([
+								{
+									type: "revoke",
+									target: roleName,
+									sql: `REVOKE ${ability.operation} ON ${qualifiedTable} FROM ${roleName};`,
+								},
+								{
+									type: "grant",
+									target: roleName,
+									sql: `GRANT ${ability.operation} (${columns.join(
+										", ",
+									)}) ON ${qualifiedTable} TO ${roleName};`,
+								},
+							]);
+						}
+					} else if (
+						columnGrantees.some(({ rolname }) => rolname === roleName)
+					) {
+						debug("Removing column-level privileges from", roleName);
+						await executor.run([
+							{
+								type: "revoke",
+								target: roleName,
+								sql: `REVOKE ${ability.operation} ON ${qualifiedTable} FROM ${roleName};`,
+							},
+							{
+								type: "grant",
+								target: roleName,
+								sql: `GRANT ${ability.operation} ON ${qualifiedTable} TO ${roleName};`,
+							},
+						]);
+					}
 
-			const roleName = createAbilityName(model, slug);
+					if (ability.mask) {
+						validateMask(runtimeDataModel, model, slug, ability);
+					}
 
-			// Check if role already exists
-			if (
-				pgRoles.find((role: { rolname: string }) => role.rolname === roleName)
-			) {
-				debug("Role already exists", roleName);
-			} else {
-				await prisma.$transaction([
-					takeLock(prisma),
-					prisma.$queryRawUnsafe(`
-					do
-					$$
-					begin
-					if not exists (select * from pg_catalog.pg_roles where rolname = '${roleName}') then 
-						create role ${roleName};
-					end if;
-					end
-					$$
-					;
-				`),
-					prisma.$queryRawUnsafe(`
-					GRANT ${ability.operation} ON "${table}" TO ${roleName};
-				`),
-				]);
+					if (ability.expression) {
+						await setRLS(
+							executor,
+							model,
+							table,
+							tableSchemas[model],
+							roleName,
+							slug,
+							// biome-ignore lint/suspicious/noExplicitAny: TODO fix this
+							ability as any,
+							existingAbilities.find(
+								({ ability_model, ability_policy_name }) =>
+									ability_model === table && ability_policy_name === roleName,
+							),
+						);
+					}
+				}
 			}
+		},
+	);
 
-			if (ability.expression) {
-				await setRLS(
-					prisma,
-					table,
-					roleName,
-					slug,
-					// biome-ignore lint/suspicious/noExplicitAny: TODO fix this
-					ability as any,
+	await withSpan(
+		tracer,
+		"yates.setup.roles",
+		{ "yates.roles": Object.keys(roles) },
+		async () => {
+			// For each of the given roles, create a role in the database and grant it the relevant permissions.
+			// By defining each permission as a seperate role, we can GRANT them to the user role here, re-using them.
+			// It's not possible to dynamically GRANT these to a shared user role, as the GRANT is not isolated per transaction and leads to broken permissions.
+			const wildCardAbilities = flatMap(abilities, (model, modelName) => {
+				return map(model, (_params, slug) => {
+					return createAbilityName(modelName, slug);
+				});
+			});
+			const toAbilityNames = (
+				roleAbilities: AllAbilities<ContextKeys, YModels>[] | "*",
+			) =>
+				roleAbilities === "*"
+					? wildCardAbilities
+					: roleAbilities.map((ability) =>
+							// biome-ignore lint/style/noNonNullAssertion: TODO fix this
+							createAbilityName(ability.model!, ability.slug!),
+					  );
+			// The abilities that are still held by at least one role, whose policies must be kept when they are revoked from another role
+			const configuredAbilities = new Set(
+				flatMap(sortedRoles, (name) =>
+					toAbilityNames(normalizeRole(roles[name]).abilities),
+				),
+			);
+			// The policies that have already been dropped, as several roles can hold the same unused ability
+			const droppedPolicies = new Set<string>();
+
+			for (const key of sortedRoles) {
+				const role = createRoleName(key);
+				const operations: PlanOperation[] = [];
+
+				if (!pgRoles.some(({ rolname }) => rolname === role)) {
+					operations.push({
+						type: "create_role",
+						target: role,
+						sql: createRoleStatement(role),
+					});
+				}
+
+				const definition = normalizeRole(roles[key]);
+				const ancestors = getAncestorRoles(roles, key);
+				// The abilities the role holds directly, and those it inherits through the roles it extends
+				const roleAbilities = [key, ...ancestors].map(
+					(name) => normalizeRole(roles[name]).abilities,
 				);
-			}
-		}
-	}
+				// The ability roles and parent roles that are granted directly to the role
+				const rlsRoles = [
+					...toAbilityNames(definition.abilities),
+					...definition.extends.map(createRoleName),
+				];
+				// Every role that the role is a member of, directly or through the roles it extends
+				const memberOfRoles = uniq([
+					...flatMap(roleAbilities, toAbilityNames),
+					...ancestors.map(createRoleName),
+				]);
 
-	// For each of the given roles, create a role in the database and grant it the relevant permissions.
-	// By defining each permission as a seperate role, we can GRANT them to the user role here, re-using them.
-	// It's not possible to dynamically GRANT these to a shared user role, as the GRANT is not isolated per transaction and leads to broken permissions.
-	for (const key in roles) {
-		const role = createRoleName(key);
-		await prisma.$executeRawUnsafe(`
-			do
-			$$
-			begin
-			if not exists (select * from pg_catalog.pg_roles where rolname = '${role}') then 
-				create role ${role};
-			end if;
-			end
-			$$
-			;
-		`);
+				const heldAbilities = roleAbilities.includes("*")
+					? flatMap(abilities, (model) => map(model))
+					: uniq(
+							flatten(roleAbilities as AllAbilities<ContextKeys, YModels>[][]),
+					  );
+				const allowedFields = getAllowedFields(
+					runtimeDataModel,
+					heldAbilities,
+					restrictedOperations,
+				);
+				fieldRestrictions[key] = allowedFields;
+				maskRestrictions[key] = getRoleMasks(heldAbilities);
+				// The role is granted the table operations that RLS policies control, so that its ability roles decide which rows it can use.
+				// Column-restricted operations are left out unless the role holds an unrestricted ability for them,
+				// as table-level privileges would override the column-level privileges of its abilities.
+				const tablePrivileges: Record<string, string[]> = {};
+				for (const model in runtimeDataModel.models) {
+					const table = getTableName(runtimeDataModel, model);
+					tablePrivileges[
+						qualifyModelTable(runtimeDataModel, model, tableSchemas)
+					] = difference(
+						TABLE_OPERATIONS,
+						Object.keys(allowedFields[table] ?? {}),
+					);
+				}
+				// Prisma reads and writes the join tables of implicit many-to-many relations directly, and they have no RLS policies
+				for (const joinTable of getJoinTables(runtimeDataModel, tableSchemas)) {
+					tablePrivileges[joinTable] = TABLE_OPERATIONS;
+				}
+
+				if (
+					compiling ||
+					!(await hasRolePrivileges(
+						prisma,
+						role,
+						tableSchemas,
+						tablePrivileges,
+					))
+				) {
+					operations.push(
+						...grantRoleStatements(tableSchemas, role, tablePrivileges).map(
+							(sql): PlanOperation => ({
+								type: sql.startsWith("REVOKE") ? "revoke" : "grant",
+								target: role,
+								sql,
+							}),
+						),
+					);
+				}
+
+				const directMemberships = compiling
+					? []
+					: await getDirectMemberships(prisma, role);
+				const missingRoles = difference(rlsRoles, directMemberships);
+				if (missingRoles.length) {
+					operations.push({
+						type: "grant",
+						target: role,
+						sql: `GRANT ${missingRoles.join(", ")} TO ${role}`,
+					});
+				}
+
+				if (compiling) {
+					// The memberships aren't known when compiling, so the old roles are looked up when the statement runs
+					operations.push({
+						type: "revoke",
+						target: role,
+						sql: revokeOldRolesStatement(role, rlsRoles),
+					});
+					await executor.run(operations);
+					continue;
+				}
+
+				// Cleanup any old roles that aren't included in the new roles.
+				// Roles that are inherited through a parent role are kept, as the parent roles have already been cleaned up.
+				const userRoles: Array<{ oid: number; rolename: string }> =
+					await prisma.$queryRawUnsafe(`
+				WITH RECURSIVE cte AS (
+					SELECT oid FROM pg_roles where rolname = '${role}'
+					UNION
+					SELECT m.roleid
+					FROM   cte
+					JOIN   pg_auth_members m ON m.member = cte.oid
+					)
+				SELECT oid, oid::regrole::text AS rolename FROM cte where oid::regrole::text != '${role}'; 
+		 `);
+
+				const oldRoles = userRoles
+					.filter(({ rolename }) => !memberOfRoles.includes(rolename))
+					.map(({ rolename }) => rolename);
+
+				if (oldRoles.length) {
+					// Now revoke old roles from the user role. Roles that it is only a member of through another old role are revoked along with it.
+					const revokedRoles = oldRoles.filter((oldRole) =>
+						directMemberships.includes(oldRole),
+					);
+					if (revokedRoles.length) {
+						debug("Revoking old roles", revokedRoles.join(", "));
+						operations.push({
+							type: "revoke",
+							target: role,
+							sql: `REVOKE ${revokedRoles.join(", ")} FROM ${role}`,
+						});
+					}
+					const unusedRoles = oldRoles.filter(
+						(oldRole) =>
+							!configuredAbilities.has(oldRole) &&
+							!droppedPolicies.has(oldRole),
+					);
+					const policies = unusedRoles.length
+						? await prisma.$queryRawUnsafe<PgPolicy[]>(
+								`SELECT * FROM pg_catalog.pg_policies WHERE policyname IN (${unusedRoles
+									.map((or) => `'${or}'`)
+									.join(", ")})`,
+						  )
+						: [];
+					operations.push(
+						...policies.map(
+							(oldPolicy): PlanOperation => ({
+								type: "drop_policy",
+								target: oldPolicy.policyname,
+								sql: `DROP POLICY ${oldPolicy.policyname} ON ${qualifyTable(
+									oldPolicy.tablename,
+									oldPolicy.schemaname,
+								)}`,
+							}),
+						),
+					);
+
+					if (unusedRoles.length) {
+						debug(
+							"Revoked old rows from ability table",
+							unusedRoles.join(", "),
+						);
+						operations.push(
+							...unusedRoles.map(
+								(unusedRole): PlanOperation => ({
+									type: "delete_ability",
+									target: unusedRole,
+									sql: `DELETE FROM _yates._yates_abilities WHERE ability_policy_name = ${escapeLiteral(
+										unusedRole,
+									)}`,
+								}),
+							),
+						);
+						for (const unusedRole of unusedRoles) {
+							droppedPolicies.add(unusedRole);
+						}
+					}
+				}
 
-		const wildCardAbilities = flatMap(abilities, (model, modelName) => {
-			return map(model, (_params, slug) => {
-				return createAbilityName(modelName, slug);
-			});
-		});
-		const roleAbilities = roles[key];
-		const rlsRoles =
-			roleAbilities === "*"
-				? wildCardAbilities
-				: roleAbilities.map((ability) =>
-						// biome-ignore lint/style/noNonNullAssertion: TODO fix this
-						createAbilityName(ability.model!, ability.slug!),
-				  );
+				await executor.run(operations);
+			}
+		},
+	);
 
-		// Note: We need to GRANT all on schema public so that we can resolve relation queries with prisma, as they will sometimes use a join table.
-		// This is not ideal, but because we are using RLS, it's not a security risk. Any table with RLS also needs a corresponding policy for the role to have access.
-		await prisma.$transaction([
-			takeLock(prisma),
-			prisma.$executeRawUnsafe(
-				`GRANT ALL ON ALL TABLES IN SCHEMA public TO ${role};`,
-			),
-			prisma.$executeRawUnsafe(`
-				GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO ${role};
-			`),
-			prisma.$executeRawUnsafe(`
-				GRANT ALL ON SCHEMA public TO ${role};
-			`),
-			prisma.$queryRawUnsafe(`GRANT ${rlsRoles.join(", ")} TO ${role}`),
-		]);
+	// Composite roles and orphans only exist in a database that has already been set up, so they are left out of a compiled script
+	if (compiling) {
+		return {
+			fieldRestrictions,
+			maskRestrictions,
+			tableSchemas,
+			orphans: undefined,
+		};
+	}
 
-		// Cleanup any old roles that aren't included in the new roles
-		const userRoles: Array<{ oid: number; rolename: string }> =
+	await withSpan(tracer, "yates.setup.composite_cleanup", {}, async () => {
+		// Composite roles are created on demand by the client when multiple roles are used at once.
+		// Clean up any that are granted roles that are no longer defined, they will be recreated with the current roles when they are next used.
+		const userRoles = Object.keys(roles).map(createRoleName);
+		const compositeMemberships: Array<{ rolname: string; member_of: string }> =
 			await prisma.$queryRawUnsafe(`
-			WITH RECURSIVE cte AS (
-				SELECT oid FROM pg_roles where rolname = '${role}'
-				UNION ALL
-				SELECT m.roleid
-				FROM   cte
-				JOIN   pg_auth_members m ON m.member = cte.oid
-				)
-			SELECT oid, oid::regrole::text AS rolename FROM cte where oid::regrole::text != '${role}'; 
-	 `);
-
-		const oldRoles = userRoles
-			.filter(({ rolename }) => !rlsRoles.includes(rolename))
-			.map(({ rolename }) => rolename);
-
-		if (oldRoles.length) {
-			// Now revoke old roles from the user role
-			debug("Revoking old roles", oldRoles.join(", "));
-			await prisma.$executeRawUnsafe(
-				`REVOKE ${oldRoles.join(", ")} FROM ${role}`,
-			);
-			const policies = await prisma.$queryRawUnsafe<PgPolicy[]>(
-				`SELECT * FROM pg_catalog.pg_policies WHERE policyname IN (${oldRoles
-					.map((or) => `'${or}'`)
-					.join(", ")})`,
-			);
-			await prisma.$transaction([
-				takeLock(prisma),
-				...policies.map((oldPolicy) =>
-					prisma.$executeRawUnsafe(
-						`DROP POLICY ${oldPolicy.policyname} ON "${oldPolicy.tablename}"`,
-					),
-				),
-			]);
+			SELECT r.rolname, m.rolname AS member_of
+			FROM pg_catalog.pg_roles r
+			JOIN pg_catalog.pg_auth_members am ON am.member = r.oid
+			JOIN pg_catalog.pg_roles m ON m.oid = am.roleid
+			WHERE r.rolname LIKE 'yates_composite_%'
+		`);
+		const staleCompositeRoles = uniq(
+			compositeMemberships
+				.filter(({ member_of }) => !userRoles.includes(member_of))
+				.map(({ rolname }) => rolname),
+		);
 
-			debug("Revoked old rows from ability table", oldRoles.join(", "));
-			await prisma.$executeRawUnsafe(
-				`DELETE FROM _yates._yates_abilities WHERE ability_policy_name IN (${oldRoles
-					.map((or) => `'${or}'`)
-					.join(", ")})`,
+		if (staleCompositeRoles.length) {
+			debug("Dropping stale composite roles", staleCompositeRoles.join(", "));
+			await executor.run(
+				staleCompositeRoles.map((compositeRole) => ({
+					type: "drop_role",
+					target: compositeRole,
+					sql: `DROP ROLE IF EXISTS ${compositeRole}`,
+				})),
 			);
 		}
+	});
+
+	// The roles, policies and abilities that are no longer configured, if pruning is enabled
+	let orphans: PruneReport | undefined;
+	if (prune !== "off") {
+		orphans = await withSpan(
+			tracer,
+			"yates.setup.prune",
+			{ "yates.prune": prune },
+			async () => {
+				const report = await findOrphans(prisma, {
+					roles: Object.keys(roles).map(createRoleName),
+					abilities: flatMap(abilities, (model, modelName) =>
+						map(model, (_params, slug) => createAbilityName(modelName, slug)),
+					),
+					hasAbilityTable,
+				});
+				debug("Orphaned roles", report.roles.join(", "));
+				debug(
+					"Orphaned policies",
+					report.policies.map(({ policy }) => policy).join(", "),
+				);
+				debug("Orphaned abilities", report.abilities.join(", "));
+				if (prune === "apply") {
+					await executor.run(getPruneOperations(report));
+				}
+				return report;
+			},
+		);
 	}
+
+	return { fieldRestrictions, maskRestrictions, tableSchemas, orphans };
+};
+
+export const createRoles = <
+	ContextKeys extends string,
+	YModels extends Models,
+	K extends CustomAbilities = CustomAbilities,
+	T = DefaultAbilities<ContextKeys, YModels> & K,
+>(
+	params: CreateRolesParams<ContextKeys, YModels, K, T>,
+) => syncRoles(params, createExecutor(params.prisma));
+
+/**
+ * Compares the roles and abilities with the database in the same way as `createRoles`, and returns the operations that it would run, without changing anything.
+ * This can be used to review the changes before they are applied by `setup` or `createRoles`.
+ * Operations that depend on an earlier operation are still listed, even though the object they depend on hasn't been created yet.
+ */
+export const plan = async <
+	ContextKeys extends string,
+	YModels extends Models,
+	K extends CustomAbilities = CustomAbilities,
+	T = DefaultAbilities<ContextKeys, YModels> & K,
+>(
+	params: CreateRolesParams<ContextKeys, YModels, K, T>,
+): Promise<PlanOperation[]> => {
+	const executor = createExecutor(params.prisma, "plan");
+	await syncRoles(params, executor);
+	return executor.operations;
+};
+
+/**
+ * Compiles the roles and abilities into a single SQL script that sets them up from scratch, including the SQL of client expressions.
+ * Every statement in the script can be run more than once, so it can be applied to a database that Yates has already set up.
+ * A database connection is still needed, as the tables of the models are looked up and client expressions are compiled by running them.
+ */
+export const compileMigration = async <
+	ContextKeys extends string,
+	YModels extends Models,
+	K extends CustomAbilities = CustomAbilities,
+	T = DefaultAbilities<ContextKeys, YModels> & K,
+>(
+	params: CreateRolesParams<ContextKeys, YModels, K, T>,
+) => {
+	const executor = createExecutor(params.prisma, "compile");
+	await syncRoles(params, executor);
+	return formatMigration(executor.operations);
+};
+
+/**
+ * Compiles the roles and abilities with `compileMigration`, and writes the script to `prisma/migrations/<timestamp>_yates/migration.sql`,
+ * so that it is applied by `prisma migrate`. Returns the path of the file.
+ */
+export const writeMigration = async <
+	ContextKeys extends string,
+	YModels extends Models,
+	K extends CustomAbilities = CustomAbilities,
+	T = DefaultAbilities<ContextKeys, YModels> & K,
+>(
+	params: CreateRolesParams<ContextKeys, YModels, K, T> & {
+		/** The directory that Prisma migrations are stored in. The default value is "prisma/migrations". */
+		migrationsDirectory?: string;
+		/** The name of the migration, which is added after the timestamp. The default value is "yates". */
+		name?: string;
+	},
+) => {
+	const { migrationsDirectory, name, ...createRolesParams } = params;
+	const sql = await compileMigration(createRolesParams);
+	const file = await writeMigrationFile(sql, { migrationsDirectory, name });
+	debug("Wrote migration to", file);
+	return file;
+};
+
+/**
+ * Explains which abilities grant or deny the given role access to a row.
+ * For each ability defined on the model, the policy expression is evaluated separately against the row matched by `where`,
+ * with the given context applied. Abilities that the role doesn't hold are reported as "missing".
+ * This should be called with the base Prisma client, as it needs to read the row and the Yates catalog without RLS.
+ */
+export const explainAccess = async <ContextKeys extends string = string>(
+	prisma: PrismaClient,
+	params: RoleContext<ContextKeys> & {
+		model: Models;
+		where: Record<string, unknown>;
+	},
+): Promise<AccessExplanation> => {
+	const { context } = resolveContext(params);
+	const roles = params.roles ?? [params.role];
+
+	return explainAbilities(prisma, {
+		model: params.model,
+		where: params.where,
+		pgRoles: roles.map(createRoleName),
+		context,
+	});
 };
 
+export interface YatesExtensionParams<ContextKeys extends string = string> {
+	/** A function that returns the context for the current request, see `SetupParams.getContext` */
+	getContext: GetContextFn<ContextKeys>;
+	options?: ClientOptions;
+	/** The role that is used for anonymous requests, see `SetupParams.anonymousRole` */
+	anonymousRole?: string;
+	/** The accounts that can bypass RLS, see `SetupParams.bypass`. Roles for accounts in "role" mode are only created by `setup`. */
+	bypass?: BypassAccounts;
+	/** The value returned by `createRoles`, which is needed to explain column-level permission errors and to apply masks */
+	roles?: Awaited<ReturnType<typeof createRoles>>;
+}
+
+/**
+ * Returns Yates as a Prisma extension, so that it can be combined with other extensions using `prisma.$extends(yatesExtension(...))`.
+ * The roles and abilities must already have been created, using `createRoles` or `setup`.
+ *
+ * Query extensions that were applied before Yates run first, outside of the Yates transaction.
+ * Query extensions that are applied after Yates run inside the Yates transaction, with the role and context set.
+ **/
+export const yatesExtension = <ContextKeys extends string = string>({
+	getContext,
+	options,
+	anonymousRole,
+	bypass,
+	roles,
+}: YatesExtensionParams<ContextKeys>) =>
+	Prisma.defineExtension((client) =>
+		extendClient(client as unknown as PrismaClient, getContext, {
+			...options,
+			anonymousRole,
+			bypass,
+			...roles,
+		}),
+	);
+
 export interface SetupParams<
 	ContextKeys extends string = string,
 	YModels extends Models = Models,
@@ -686,17 +1987,47 @@ export interface SetupParams<
 	 * A function that returns the roles for your application.
 	 * This is paramaterised by the abilities, so you can use it to create roles that are a combination of abilities.
 	 */
-	getRoles: (abilities: DefaultAbilities<ContextKeys, YModels> & K) => {
-		[role: string]: AllAbilities<ContextKeys, YModels>[] | "*";
-	};
+	getRoles: (
+		abilities: DefaultAbilities<ContextKeys, YModels> & K,
+	) => Roles<ContextKeys, YModels>;
 	/**
 	 * A function that returns the context for the current request.
 	 * This is called on every prisma query, and is needed to determine the current user's role.
+	 * The function can be async, in which case it is awaited once per query or transaction.
 	 * You can also provide additional context here, which will be available in any RLS expressions you've defined.
-	 * Returning `null` will result in the permissions being skipped entirely.
+	 * Returning `{ anonymous: true }` will run the request as the `anonymousRole`.
+	 * Returning `null` will result in the permissions being skipped entirely, unless `options.strict` is set.
 	 */
 	getContext: GetContextFn<ContextKeys>;
+	/**
+	 * The role that is used for unauthenticated requests, where `getContext` returns `{ anonymous: true }`.
+	 * This must be one of the roles returned by `getRoles`, and should only hold the abilities that are safe for anyone to use.
+	 */
+	anonymousRole?: string;
+	/**
+	 * Named service accounts that can bypass RLS, where `getContext` returns `{ bypass: "<name>" }`.
+	 * Unlike a `null` context, every bypass is reported in debug logs and traces, and can be recorded in the audit log.
+	 */
+	bypass?: BypassAccounts;
 	options?: ClientOptions;
+	/**
+	 * Records every insert, update and delete made to the given models in the `_yates.audit_log` table,
+	 * along with the Yates role and the given context keys.
+	 */
+	audit?: AuditOptions<ContextKeys, YModels>;
+	/**
+	 * Controls what happens to the roles, abilities and policies that Yates created, but that are no longer configured.
+	 * "report" logs them with the `yates` debug logger, and "apply" drops them. The default value is "off".
+	 * Only use "apply" if a single Yates configuration is used with the database, as the roles of any other configuration will be dropped.
+	 */
+	prune?: PruneMode;
+	/**
+	 * Controls whether `setup` changes the database.
+	 * "apply" creates and updates the roles, abilities and policies. "verify" only checks that they match the configuration,
+	 * and throws a `YatesVerificationError` if they don't. The audit log and bypass roles are not set up in "verify" mode.
+	 * The default value is "apply".
+	 */
+	mode?: "apply" | "verify";
 }
 
 /**
@@ -714,13 +2045,80 @@ export const setup = async <
 ) => {
 	const start = performance.now();
 
-	const { prisma, customAbilities, getRoles, getContext } = params;
-	await createRoles<ContextKeys, YModels, K>({
+	const {
 		prisma,
 		customAbilities,
 		getRoles,
+		getContext,
+		anonymousRole,
+		bypass = {},
+		prune,
+		mode = "apply",
+	} = params;
+	const tracer = params.options?.tracer ?? noopTracer;
+	const executor = createExecutor(prisma, mode === "verify" ? "plan" : "apply");
+	const { fieldRestrictions, maskRestrictions, tableSchemas } = await withSpan(
+		tracer,
+		"yates.setup",
+		{ "yates.mode": mode },
+		() =>
+			syncRoles<
+				ContextKeys,
+				YModels,
+				K,
+				DefaultAbilities<ContextKeys, YModels> & K
+			>(
+				{
+					prisma,
+					customAbilities,
+					getRoles,
+					anonymousRole,
+					prune,
+					tracer,
+				},
+				executor,
+			),
+	);
+	if (mode === "verify") {
+		// Composite roles are created by the client when they are needed, so stale composite roles are not drift
+		const pending = executor.operations.filter(
+			({ target }) => !target.startsWith("yates_composite_"),
+		);
+		if (pending.length) {
+			throw new YatesVerificationError(pending);
+		}
+	}
+	if (params.audit && mode === "apply") {
+		const audit = params.audit;
+		await withSpan(tracer, "yates.setup.audit", {}, () =>
+			setupAudit(prisma, audit),
+		);
+	}
+	const bypassAccounts = Object.entries(bypass);
+	if (bypassAccounts.length && mode === "apply") {
+		await withSpan(tracer, "yates.setup.bypass", {}, async () => {
+			for (const [name, account] of bypassAccounts) {
+				if (account.mode === "role") {
+					await setupBypassRole(
+						prisma,
+						createBypassRoleName(name),
+						tableSchemas,
+					);
+				}
+			}
+			if (bypassAccounts.some(([_name, account]) => account.audit)) {
+				await setupAuditTable(prisma);
+			}
+		});
+	}
+	const client = createClient(prisma, getContext, {
+		...params.options,
+		anonymousRole,
+		bypass,
+		fieldRestrictions,
+		maskRestrictions,
+		tableSchemas,
 	});
-	const client = createClient(prisma, getContext, params.options);
 
 	debug("Setup completed in", performance.now() - start, "ms");
 
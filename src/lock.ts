@@ -0,0 +1,10 @@
+import { PrismaClient } from "@prisma/client";
+
+/**
+ * This function is used to take a lock that is automatically released at the end of the current transaction.
+ * This is very convenient for ensuring we don't hit concurrency issues when running setup code.
+ */
+export const takeLock = (prisma: PrismaClient) =>
+	prisma.$executeRawUnsafe(
+		"SELECT pg_advisory_xact_lock(2142616474639426746);",
+	);
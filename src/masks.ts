@@ -0,0 +1,287 @@
+import { Prisma } from "@prisma/client";
+import uniq from "lodash/uniq";
+import { escapeIdentifier } from "./escape";
+import { RuntimeDataModel, getTableName } from "./expressions";
+import { TableSchemas, qualifyTable } from "./schemas";
+
+/**
+ * How a masked field is returned.
+ * "null" returns null, "partial" keeps the first character (and the domain of email addresses), e.g. "j***@example.com".
+ * Any other value is used as an SQL expression, which can reference the columns of the row, e.g. "left(name, 2) || '...'".
+ */
+export type Mask = "partial" | "null" | (string & {});
+
+// The masked fields for each model that a role can read, keyed by Prisma model name and then by field.
+// Models that the role can read without any masks have an empty object.
+export type RoleMasks = Record<string, Record<string, Mask>>;
+
+// The masks for each role, keyed by role name
+export type MaskRestrictions = Record<string, RoleMasks>;
+
+// The operations that return model records
+const RECORD_OPERATIONS = [
+	"findUnique",
+	"findUniqueOrThrow",
+	"findFirst",
+	"findFirstOrThrow",
+	"findMany",
+	"create",
+	"update",
+	"upsert",
+	"delete",
+];
+
+// The operations that return values computed from the fields, rather than records
+const AGGREGATE_OPERATIONS = ["aggregate", "groupBy"];
+
+// The aggregations that return values computed from the field values. Counts are allowed, as they don't reveal the values.
+const VALUE_AGGREGATIONS = ["_min", "_max", "_avg", "_sum"];
+
+interface MaskAbility {
+	model?: string;
+	operation: string;
+	mask?: Record<string, Mask | undefined>;
+}
+
+type ModelData = RuntimeDataModel["models"][string];
+
+/**
+ * Validates the masks of an ability, so that configuration errors are surfaced during setup.
+ */
+export const validateMask = (
+	runtimeDataModel: RuntimeDataModel,
+	model: string,
+	slug: string,
+	{ operation, mask }: MaskAbility,
+) => {
+	if (operation !== "SELECT") {
+		throw new Error(
+			`Ability "${slug}" on ${model} has a mask, but masks can only be used with SELECT abilities`,
+		);
+	}
+	const modelData = runtimeDataModel.models[model];
+	for (const [field, fieldMask] of Object.entries(mask ?? {})) {
+		const fieldData = modelData?.fields.find(
+			(f) => f.name === field && f.kind !== "object",
+		);
+		if (!fieldData) {
+			throw new Error(
+				`Invalid field "${field}" in the mask of ability "${slug}" on ${model}`,
+			);
+		}
+		// Keeping the first character of a number or a date would reveal most of its value
+		if (fieldMask === "partial" && fieldData.type !== "String") {
+			throw new Error(
+				`Field "${field}" in the mask of ability "${slug}" on ${model} can't use a "partial" mask, as it is not a String field`,
+			);
+		}
+	}
+};
+
+/**
+ * Returns the masks that apply to a role, for each model it holds SELECT abilities for.
+ * A field is only masked if every SELECT ability the role holds on the model masks it, as any other ability would reveal it.
+ */
+export const getRoleMasks = (abilities: MaskAbility[]): RoleMasks => {
+	const masks: RoleMasks = {};
+	const selectAbilities = abilities.filter(
+		(ability) => ability.operation === "SELECT" && ability.model,
+	);
+
+	for (const ability of selectAbilities) {
+		// biome-ignore lint/style/noNonNullAssertion: Abilities without a model are filtered out above
+		const model = ability.model!;
+		const abilityMasks = (ability.mask ?? {}) as Record<string, Mask>;
+		if (!masks[model]) {
+			masks[model] = { ...abilityMasks };
+			continue;
+		}
+		for (const field of Object.keys(masks[model])) {
+			if (!abilityMasks[field]) {
+				delete masks[model][field];
+			}
+		}
+	}
+
+	return masks;
+};
+
+/**
+ * Combines the masks of several roles that are used at once.
+ * A field is only masked if it is masked by every role that can read the model.
+ */
+export const combineRoleMasks = (roles: RoleMasks[]): RoleMasks => {
+	const combined: RoleMasks = {};
+
+	for (const role of roles) {
+		for (const model of Object.keys(role)) {
+			if (!combined[model]) {
+				combined[model] = { ...role[model] };
+				continue;
+			}
+			for (const field of Object.keys(combined[model])) {
+				if (!role[model][field]) {
+					delete combined[model][field];
+				}
+			}
+		}
+	}
+
+	return combined;
+};
+
+const maskToSQL = (mask: Mask, column: string) => {
+	if (mask === "null") {
+		return "NULL";
+	}
+	if (mask === "partial") {
+		const value = `${column}::text`;
+		return `CASE
+			WHEN ${column} IS NULL THEN NULL
+			WHEN position('@' in ${value}) > 1 THEN left(${value}, 1) || '***' || substring(${value} from position('@' in ${value}))
+			ELSE left(${value}, 1) || '***'
+		END`;
+	}
+	return mask;
+};
+
+// Converts a record to a JSON object keyed by column name, so that it can be turned back into a row in PG
+const toRowJSON = (modelData: ModelData, record: Record<string, unknown>) => {
+	const row: Record<string, unknown> = {};
+	for (const field of modelData.fields) {
+		if (field.kind !== "object" && field.name in record) {
+			const value = record[field.name];
+			row[field.dbName || field.name] =
+				typeof value === "bigint" ? value.toString() : value;
+		}
+	}
+	return row;
+};
+
+// Walks a query result and collects the records of every masked model, including records of related models
+const collectRecords = (
+	runtimeDataModel: RuntimeDataModel,
+	model: string,
+	value: unknown,
+	masks: RoleMasks,
+	records: Record<string, Record<string, unknown>[]>,
+) => {
+	if (!value || typeof value !== "object") {
+		return;
+	}
+	if (Array.isArray(value)) {
+		for (const item of value) {
+			collectRecords(runtimeDataModel, model, item, masks, records);
+		}
+		return;
+	}
+
+	const record = value as Record<string, unknown>;
+	if (masks[model] && Object.keys(masks[model]).length) {
+		records[model] = records[model] ?? [];
+		records[model].push(record);
+	}
+
+	for (const field of runtimeDataModel.models[model]?.fields ?? []) {
+		if (field.kind === "object" && record[field.name]) {
+			collectRecords(
+				runtimeDataModel,
+				field.type,
+				record[field.name],
+				masks,
+				records,
+			);
+		}
+	}
+};
+
+/**
+ * Throws if an aggregation groups by or aggregates the values of a masked field, as masks can't be applied to the result.
+ */
+export const checkMaskedAggregation = (
+	model: string,
+	operation: string,
+	// biome-ignore lint/suspicious/noExplicitAny: The arguments of every Prisma operation are accepted
+	args: any,
+	masks: RoleMasks,
+) => {
+	const maskedFields = Object.keys(masks[model] ?? {});
+	if (!AGGREGATE_OPERATIONS.includes(operation) || !maskedFields.length) {
+		return;
+	}
+
+	const by: string[] = args?.by ? [args.by].flat() : [];
+	const fields = [
+		...by,
+		...VALUE_AGGREGATIONS.flatMap((aggregation) =>
+			Object.keys(args?.[aggregation] ?? {}),
+		),
+	];
+	const used = uniq(fields.filter((field) => maskedFields.includes(field)));
+	if (used.length) {
+		throw new Error(
+			`Masked fields can't be grouped by or aggregated: ${used
+				.map((field) => `${model}.${field}`)
+				.join(", ")}`,
+		);
+	}
+};
+
+/**
+ * Replaces the masked fields in the result of a query.
+ * Masks are evaluated by PG against rows rebuilt from the returned records, so SQL expressions can only use the fields that were selected.
+ * This must be run in the same transaction as the query, so that the context is available to the mask expressions.
+ */
+export const applyMasks = async <T>(
+	tx: Prisma.TransactionClient,
+	runtimeDataModel: RuntimeDataModel,
+	model: string,
+	operation: string,
+	result: T,
+	masks: RoleMasks,
+	tableSchemas?: TableSchemas,
+): Promise<T> => {
+	if (
+		!RECORD_OPERATIONS.includes(operation) ||
+		!Object.values(masks).some((fields) => Object.keys(fields).length)
+	) {
+		return result;
+	}
+
+	const records: Record<string, Record<string, unknown>[]> = {};
+	collectRecords(runtimeDataModel, model, result, masks, records);
+
+	for (const [recordModel, modelRecords] of Object.entries(records)) {
+		const modelData = runtimeDataModel.models[recordModel];
+		const table = getTableName(runtimeDataModel, recordModel);
+		const fields = Object.entries(masks[recordModel]);
+		const columns = fields.map(([field, mask]) => {
+			const fieldData = modelData.fields.find((f) => f.name === field);
+			const column = escapeIdentifier(fieldData?.dbName || field);
+			return `(${maskToSQL(mask, column)}) AS ${escapeIdentifier(field)}`;
+		});
+
+		const maskedRows: Record<string, unknown>[] = await tx.$queryRawUnsafe(
+			`SELECT ${columns.join(", ")}
+			FROM jsonb_populate_recordset(NULL::${qualifyTable(
+				table,
+				tableSchemas?.[recordModel],
+			)}, $1::jsonb) WITH ORDINALITY AS ${escapeIdentifier(table)}
+			ORDER BY ordinality`,
+			JSON.stringify(
+				modelRecords.map((record) => toRowJSON(modelData, record)),
+			),
+		);
+
+		modelRecords.forEach((record, i) => {
+			for (const [field] of fields) {
+				// Fields that weren't selected are left out of the result
+				if (field in record) {
+					record[field] = maskedRows[i][field];
+				}
+			}
+		});
+	}
+
+	return result;
+};
@@ -0,0 +1,50 @@
+import * as path from "path";
+import { mkdir, writeFile } from "fs/promises";
+import { PlanOperation } from "./plan";
+
+const HEADER = `-- Generated by Yates. Do not edit this file, generate a new migration instead.
+-- Every statement can be run more than once, so the script can be applied to a database that Yates has already set up.
+`;
+
+/**
+ * Joins compiled operations into a single SQL script, with a comment above each statement that describes it.
+ */
+export const formatMigration = (operations: PlanOperation[]) =>
+	[
+		HEADER,
+		...operations.map(({ type, target, sql }) => {
+			const statement = sql.trim();
+			return `-- ${type}: ${target}\n${
+				statement.endsWith(";") ? statement : `${statement};`
+			}\n`;
+		}),
+	].join("\n");
+
+// Prisma names migration directories with a UTC timestamp in the format YYYYMMDDHHMMSS
+const getMigrationTimestamp = (date: Date) =>
+	date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+
+/**
+ * Writes a SQL script to a new directory in the Prisma migrations directory, and returns the path of the file.
+ */
+export const writeMigrationFile = async (
+	sql: string,
+	{
+		migrationsDirectory = path.join("prisma", "migrations"),
+		name = "yates",
+		date = new Date(),
+	}: {
+		migrationsDirectory?: string;
+		name?: string;
+		date?: Date;
+	} = {},
+) => {
+	const directory = path.join(
+		migrationsDirectory,
+		`${getMigrationTimestamp(date)}_${name}`,
+	);
+	await mkdir(directory, { recursive: true });
+	const file = path.join(directory, "migration.sql");
+	await writeFile(file, sql);
+	return file;
+};
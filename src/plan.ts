@@ -0,0 +1,227 @@
+import { PrismaClient } from "@prisma/client";
+import logger from "debug";
+import { takeLock } from "./lock";
+import {
+	SCHEMA_PRIVILEGES,
+	SEQUENCE_PRIVILEGES,
+	TABLE_PRIVILEGES,
+	TableSchemas,
+	getSchemas,
+	qualifyTable,
+} from "./schemas";
+
+const debug = logger("yates");
+
+export type PlanOperationType =
+	| "create_ability_table"
+	| "enable_rls"
+	| "create_role"
+	| "grant"
+	| "revoke"
+	| "create_policy"
+	| "alter_policy"
+	| "drop_policy"
+	| "upsert_ability"
+	| "delete_ability"
+	| "drop_role";
+
+export interface PlanOperation {
+	type: PlanOperationType;
+	/** The role, table, policy or ability that the operation changes */
+	target: string;
+	/** The SQL statement that is run for the operation */
+	sql: string;
+}
+
+/**
+ * How an executor handles operations.
+ * "apply" runs them, "plan" only records them, and "compile" records them as if the database had no Yates roles or policies,
+ * so that the operations set up everything from scratch.
+ */
+export type ExecutorMode = "apply" | "plan" | "compile";
+
+/**
+ * Runs the statements that Yates needs to set up roles and policies, or only records them if it is a dry run.
+ */
+export interface Executor {
+	mode: ExecutorMode;
+	/** True if the operations are only recorded */
+	dryRun: boolean;
+	/** Every operation that has been run or recorded, in order */
+	operations: PlanOperation[];
+	/** Runs a batch of operations in a single transaction that holds the Yates lock */
+	run: (operations: PlanOperation[]) => Promise<void>;
+}
+
+export const createExecutor = (
+	prisma: PrismaClient,
+	mode: ExecutorMode = "apply",
+): Executor => {
+	const operations: PlanOperation[] = [];
+	const dryRun = mode !== "apply";
+
+	return {
+		mode,
+		dryRun,
+		operations,
+		run: async (batch) => {
+			if (!batch.length) {
+				return;
+			}
+			operations.push(...batch);
+			if (dryRun) {
+				for (const operation of batch) {
+					debug("Planned", operation.type, operation.target);
+				}
+				return;
+			}
+			await prisma.$transaction([
+				takeLock(prisma),
+				...batch.map((operation) => prisma.$executeRawUnsafe(operation.sql)),
+			]);
+		},
+	};
+};
+
+// Newer PG versions add table privileges (such as MAINTAIN), so only the privileges that Yates manages are checked
+const hasPrivileges = (privileges: string[], expected: string[]) =>
+	expected.every((privilege) => privileges.includes(privilege));
+
+/**
+ * Checks whether a user role holds the privileges on the schemas and sequences of the models that Yates grants it,
+ * and exactly the listed privileges on each table, out of those that Yates manages.
+ * This is the state that the statements of `grantRoleStatements` result in.
+ */
+export const hasRolePrivileges = async (
+	prisma: PrismaClient,
+	role: string,
+	tableSchemas: TableSchemas,
+	/** The privileges that the role is granted, keyed by qualified table name */
+	tablePrivileges: Record<string, string[]>,
+) => {
+	const schemas = getSchemas(tableSchemas);
+
+	const relations: Array<{
+		schema_name: string;
+		relation_name: string;
+		kind: string;
+		privileges: string[];
+	}> = await prisma.$queryRawUnsafe(
+		`
+		SELECT
+			n.nspname AS schema_name,
+			c.relname AS relation_name,
+			c.relkind::text AS kind,
+			ARRAY(
+				SELECT DISTINCT acl.privilege_type
+				FROM aclexplode(c.relacl) acl
+				WHERE acl.grantee = (SELECT oid FROM pg_catalog.pg_roles WHERE rolname = $1)
+			) AS privileges
+		FROM pg_catalog.pg_class c
+		JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+		WHERE n.nspname = ANY($2::text[]) AND c.relkind IN ('r', 'p', 'v', 'm', 'f', 'S')
+		`,
+		role,
+		schemas,
+	);
+	const namespaces: Array<{ privileges: string[] }> =
+		await prisma.$queryRawUnsafe(
+			`
+		SELECT
+			ARRAY(
+				SELECT DISTINCT acl.privilege_type
+				FROM aclexplode(n.nspacl) acl
+				WHERE acl.grantee = (SELECT oid FROM pg_catalog.pg_roles WHERE rolname = $1)
+			) AS privileges
+		FROM pg_catalog.pg_namespace n
+		WHERE n.nspname = ANY($2::text[])
+		`,
+			role,
+			schemas,
+		);
+
+	const qualifiedRelations = relations.map((relation) => ({
+		...relation,
+		qualifiedTable: qualifyTable(relation.relation_name, relation.schema_name),
+	}));
+
+	return (
+		namespaces.every(({ privileges }) =>
+			hasPrivileges(privileges, SCHEMA_PRIVILEGES),
+		) &&
+		qualifiedRelations.every(({ kind, privileges }) =>
+			kind === "S" ? hasPrivileges(privileges, SEQUENCE_PRIVILEGES) : true,
+		) &&
+		Object.entries(tablePrivileges).every(([qualifiedTable, granted]) => {
+			const relation = qualifiedRelations.find(
+				(r) => r.qualifiedTable === qualifiedTable,
+			);
+			return (
+				!!relation &&
+				hasPrivileges(relation.privileges, granted) &&
+				!TABLE_PRIVILEGES.some(
+					(privilege) =>
+						!granted.includes(privilege) &&
+						relation.privileges.includes(privilege),
+				)
+			);
+		})
+	);
+};
+
+/**
+ * Returns the columns that a role has been granted an operation on,
+ * or null if the role has been granted the operation on the whole table.
+ */
+export const getGrantedColumns = async (
+	prisma: PrismaClient,
+	role: string,
+	qualifiedTable: string,
+	operation: string,
+): Promise<string[] | null> => {
+	const grants: Array<{ column_name: string | null }> =
+		await prisma.$queryRawUnsafe(
+			`
+		SELECT NULL AS column_name
+		FROM pg_catalog.pg_class c, aclexplode(c.relacl) acl
+		WHERE c.oid = $2::regclass
+			AND acl.grantee = (SELECT oid FROM pg_catalog.pg_roles WHERE rolname = $1)
+			AND acl.privilege_type = $3
+		UNION ALL
+		SELECT a.attname::text AS column_name
+		FROM pg_catalog.pg_attribute a, aclexplode(a.attacl) acl
+		WHERE a.attrelid = $2::regclass
+			AND acl.grantee = (SELECT oid FROM pg_catalog.pg_roles WHERE rolname = $1)
+			AND acl.privilege_type = $3
+		`,
+			role,
+			qualifiedTable,
+			operation,
+		);
+
+	if (grants.some(({ column_name }) => column_name === null)) {
+		return null;
+	}
+
+	return grants.map(({ column_name }) => column_name as string);
+};
+
+/**
+ * Returns the names of the roles that have been granted directly to a role.
+ */
+export const getDirectMemberships = async (
+	prisma: PrismaClient,
+	role: string,
+): Promise<string[]> => {
+	const memberships: Array<{ rolname: string }> = await prisma.$queryRawUnsafe(
+		`
+		SELECT r.rolname
+		FROM pg_catalog.pg_auth_members m
+		JOIN pg_catalog.pg_roles r ON r.oid = m.roleid
+		WHERE m.member = (SELECT oid FROM pg_catalog.pg_roles WHERE rolname = $1)
+		`,
+		role,
+	);
+
+	return memberships.map(({ rolname }) => rolname);
+};
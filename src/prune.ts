@@ -0,0 +1,139 @@
+import { PrismaClient } from "@prisma/client";
+import logger from "debug";
+import { escapeLiteral } from "./escape";
+import { PlanOperation } from "./plan";
+import { qualifyTable } from "./schemas";
+
+const debug = logger("yates");
+
+const USER_ROLE_PREFIX = "yates_role_";
+const ABILITY_ROLE_PREFIX = "yates_ability_";
+
+/**
+ * Controls what happens to the roles, policies and abilities that Yates created, but that are no longer configured.
+ * "off" leaves them in place, "report" logs them without changing anything, and "apply" drops them.
+ */
+export type PruneMode = "off" | "report" | "apply";
+
+export interface PruneReport {
+	/** The user roles and ability roles that are no longer returned by `getRoles` or defined as abilities */
+	roles: string[];
+	/** The policies of abilities that are no longer defined */
+	policies: Array<{ policy: string; table: string; schema: string }>;
+	/** The policy names of the rows in the `_yates._yates_abilities` table whose ability is no longer defined */
+	abilities: string[];
+}
+
+/**
+ * Compares the configured roles and abilities against the PG catalog and the abilities table,
+ * and returns everything that Yates created that is no longer configured.
+ */
+export const findOrphans = async (
+	prisma: PrismaClient,
+	{
+		roles,
+		abilities,
+		hasAbilityTable = true,
+	}: {
+		/** The PG names of the configured user roles */
+		roles: string[];
+		/** The PG names of the configured ability roles, which are also the names of their policies */
+		abilities: string[];
+		/** False if the `_yates._yates_abilities` table hasn't been created yet, which is only the case when planning */
+		hasAbilityTable?: boolean;
+	},
+): Promise<PruneReport> => {
+	const configured = new Set([...roles, ...abilities]);
+
+	const pgRoles: Array<{ rolname: string }> = await prisma.$queryRawUnsafe(`
+		SELECT rolname FROM pg_catalog.pg_roles WHERE rolname LIKE 'yates%'
+	`);
+	const pgPolicies: Array<{
+		policyname: string;
+		tablename: string;
+		schemaname: string;
+	}> = await prisma.$queryRawUnsafe(`
+		SELECT policyname, tablename, schemaname FROM pg_catalog.pg_policies WHERE policyname LIKE 'yates%'
+	`);
+	const abilityRows: Array<{ ability_policy_name: string }> = hasAbilityTable
+		? await prisma.$queryRawUnsafe(`
+		SELECT DISTINCT ability_policy_name FROM _yates._yates_abilities
+	`)
+		: [];
+
+	return {
+		roles: pgRoles
+			.map(({ rolname }) => rolname)
+			.filter(
+				(rolname) =>
+					(rolname.startsWith(USER_ROLE_PREFIX) ||
+						rolname.startsWith(ABILITY_ROLE_PREFIX)) &&
+					!configured.has(rolname),
+			),
+		policies: pgPolicies
+			.filter(
+				({ policyname }) =>
+					policyname.startsWith(ABILITY_ROLE_PREFIX) &&
+					!configured.has(policyname),
+			)
+			.map(({ policyname, tablename, schemaname }) => ({
+				policy: policyname,
+				table: tablename,
+				schema: schemaname,
+			})),
+		abilities: abilityRows
+			.map(({ ability_policy_name }) => ability_policy_name)
+			.filter((name) => !configured.has(name)),
+	};
+};
+
+/**
+ * Returns the operations that drop the orphaned policies, abilities and roles in a report.
+ * Policies are dropped first, as a role can't be dropped while a policy applies to it.
+ */
+export const getPruneOperations = (report: PruneReport): PlanOperation[] => {
+	if (
+		!report.roles.length &&
+		!report.policies.length &&
+		!report.abilities.length
+	) {
+		return [];
+	}
+
+	debug(
+		"Pruning",
+		report.roles.length,
+		"roles,",
+		report.policies.length,
+		"policies and",
+		report.abilities.length,
+		"abilities",
+	);
+
+	return [
+		...report.policies.map(
+			({ policy, table, schema }): PlanOperation => ({
+				type: "drop_policy",
+				target: policy,
+				sql: `DROP POLICY IF EXISTS ${policy} ON ${qualifyTable(
+					table,
+					schema,
+				)}`,
+			}),
+		),
+		...report.abilities.map(
+			(ability): PlanOperation => ({
+				type: "delete_ability",
+				target: ability,
+				sql: `DELETE FROM _yates._yates_abilities WHERE ability_policy_name = ${escapeLiteral(
+					ability,
+				)}`,
+			}),
+		),
+		// Privileges have to be revoked before a role can be dropped, which DROP OWNED does for every object in the database
+		...report.roles.flatMap((role): PlanOperation[] => [
+			{ type: "revoke", target: role, sql: `DROP OWNED BY ${role}` },
+			{ type: "drop_role", target: role, sql: `DROP ROLE IF EXISTS ${role}` },
+		]),
+	];
+};
@@ -0,0 +1,68 @@
+import logger from "debug";
+import { getSqlState } from "./errors";
+
+const debug = logger("yates");
+
+// The Prisma error code for transactions that failed due to a write conflict or a deadlock.
+// Prisma reports serialization failures and deadlocks in interactive transactions with it, without their SQLSTATE.
+const PRISMA_WRITE_CONFLICT = "P2034";
+
+// serialization_failure and deadlock_detected, and the Prisma error code that they are reported with
+// https://www.postgresql.org/docs/current/errcodes-appendix.html
+const DEFAULT_RETRY_CODES = ["40001", "40P01", PRISMA_WRITE_CONFLICT];
+
+export interface RetryOptions {
+	/** The maximum number of times the transaction is attempted, including the first attempt. The default value is 3. */
+	maxAttempts?: number;
+	/**
+	 * The number of milliseconds to wait before retrying, or a function that returns it for the given attempt number (starting at 1).
+	 * The default is an exponential backoff, starting at 50ms.
+	 */
+	backoff?: number | ((attempt: number) => number);
+	/**
+	 * The SQLSTATE codes and Prisma error codes that should be retried.
+	 * Prisma reports both serialization failures and deadlocks in interactive transactions as P2034, which can't be told apart,
+	 * so they are only retried if P2034 is included.
+	 * The default value is serialization failures (40001), deadlocks (40P01) and P2034.
+	 */
+	codes?: string[];
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Prisma errors don't share a common type
+const isRetryable = (e: any, codes: string[]) => {
+	if (typeof e?.code === "string" && codes.includes(e.code)) {
+		return true;
+	}
+	const sqlState = e ? getSqlState(e) : undefined;
+	return !!sqlState && codes.includes(sqlState);
+};
+
+/**
+ * Runs the callback, running it again if it fails with a retryable error.
+ * The callback should run a whole transaction, so that every attempt starts from a clean state.
+ * `canRetry` is checked before each retry, for callbacks that can't always be run again.
+ */
+export const withRetry = async <T>(
+	options: RetryOptions | undefined,
+	fn: () => Promise<T>,
+	canRetry: () => boolean = () => true,
+): Promise<T> => {
+	const {
+		maxAttempts = options ? 3 : 1,
+		backoff = (attempt: number) => 50 * 2 ** (attempt - 1),
+		codes = DEFAULT_RETRY_CODES,
+	} = options ?? {};
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn();
+		} catch (e) {
+			if (attempt >= maxAttempts || !isRetryable(e, codes) || !canRetry()) {
+				throw e;
+			}
+			const delay = typeof backoff === "function" ? backoff(attempt) : backoff;
+			debug("Retrying transaction after error", e.message, "in", delay, "ms");
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+	}
+};
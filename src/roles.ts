@@ -0,0 +1,75 @@
+/**
+ * A role that inherits the abilities of other roles.
+ */
+export interface RoleDefinition<A> {
+	/** The roles that this role inherits every ability from */
+	extends?: string[];
+	/** The abilities that this role holds in addition to the ones it inherits */
+	abilities?: A[] | "*";
+}
+
+export type RoleConfig<A> = A[] | "*" | RoleDefinition<A>;
+
+export const normalizeRole = <A>(
+	config: RoleConfig<A>,
+): Required<RoleDefinition<A>> =>
+	Array.isArray(config) || config === "*"
+		? { extends: [], abilities: config }
+		: { extends: config.extends ?? [], abilities: config.abilities ?? [] };
+
+/**
+ * Sorts the roles so that every role comes after the roles it extends, so that they can be granted to it.
+ * Throws if a role extends an unknown role, or if roles extend each other in a cycle.
+ */
+export const sortRoles = <A>(roles: Record<string, RoleConfig<A>>) => {
+	const sorted: string[] = [];
+	const visiting: string[] = [];
+
+	const visit = (role: string) => {
+		if (sorted.includes(role)) {
+			return;
+		}
+		if (visiting.includes(role)) {
+			const cycle = [...visiting.slice(visiting.indexOf(role)), role];
+			throw new Error(`Role inheritance cycle: ${cycle.join(" -> ")}`);
+		}
+		visiting.push(role);
+		for (const parent of normalizeRole(roles[role]).extends) {
+			if (!roles[parent]) {
+				throw new Error(`Role "${role}" extends unknown role "${parent}"`);
+			}
+			visit(parent);
+		}
+		visiting.pop();
+		sorted.push(role);
+	};
+
+	for (const role of Object.keys(roles)) {
+		visit(role);
+	}
+
+	return sorted;
+};
+
+/**
+ * Returns every role that a role inherits from, directly or through another role.
+ * The roles must have been validated with `sortRoles`.
+ */
+export const getAncestorRoles = <A>(
+	roles: Record<string, RoleConfig<A>>,
+	role: string,
+): string[] => {
+	const ancestors = new Set<string>();
+	const queue = [...normalizeRole(roles[role]).extends];
+
+	while (queue.length) {
+		// biome-ignore lint/style/noNonNullAssertion: The queue is checked above
+		const parent = queue.shift()!;
+		if (!ancestors.has(parent)) {
+			ancestors.add(parent);
+			queue.push(...normalizeRole(roles[parent]).extends);
+		}
+	}
+
+	return Array.from(ancestors);
+};
@@ -0,0 +1,211 @@
+import { PrismaClient } from "@prisma/client";
+import { escapeIdentifier } from "./escape";
+import {
+	RuntimeDataModel,
+	getRuntimeDataModel,
+	getTableName,
+} from "./expressions";
+
+// The PG schema of each model's table, keyed by Prisma model name, as tables in different schemas can have the same name
+export type TableSchemas = Record<string, string>;
+
+interface PgTable {
+	table_name: string;
+	schema_name: string;
+	// True if the table is in the schema of the connection, which Prisma uses for models without a `@@schema` attribute
+	in_current_schema: boolean;
+}
+
+/**
+ * Returns the schemas set with the `@@schema` attribute of each model, which Prisma's runtime data model doesn't include.
+ * They are read from the Prisma schema that the generated client embeds.
+ */
+const getSchemaAttributes = (prisma: PrismaClient) => {
+	const schemaAttributes: TableSchemas = {};
+	const inlineSchema: string | undefined =
+		// biome-ignore lint/suspicious/noExplicitAny: This is a private API, so not much we can do about it
+		(prisma as any)._engineConfig?.inlineSchema;
+	if (!inlineSchema) {
+		return schemaAttributes;
+	}
+
+	const datamodel = inlineSchema.replace(/\/\/.*$/gm, "");
+	for (const [, model, body] of datamodel.matchAll(
+		/^\s*model\s+(\w+)\s*\{([\s\S]*?)^\s*\}/gm,
+	)) {
+		const schema = body.match(/@@schema\(\s*"([^"]+)"\s*\)/)?.[1];
+		if (schema) {
+			schemaAttributes[model] = schema;
+		}
+	}
+	return schemaAttributes;
+};
+
+/**
+ * Returns the PG schema of each model's table.
+ * Models with a `@@schema` attribute use that schema, and other models use the schema of the connection, as they do in Prisma.
+ * If the Prisma schema isn't available, a table that isn't in the schema of the connection is looked up in the catalog,
+ * and it must exist in exactly one schema, as Yates can't tell which one Prisma uses if there are several.
+ */
+export const getTableSchemas = async (
+	prisma: PrismaClient,
+): Promise<TableSchemas> => {
+	const runtimeDataModel = getRuntimeDataModel(prisma);
+	const tableSchemas = getSchemaAttributes(prisma);
+	const unresolved = Object.keys(runtimeDataModel.models)
+		.filter((model) => !tableSchemas[model])
+		.map((model) => ({ model, table: getTableName(runtimeDataModel, model) }));
+
+	if (!unresolved.length) {
+		return tableSchemas;
+	}
+
+	const pgTables: PgTable[] = await prisma.$queryRawUnsafe(
+		`
+		SELECT c.relname AS table_name, n.nspname AS schema_name, n.nspname = current_schema() AS in_current_schema
+		FROM pg_catalog.pg_class c
+		JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+		WHERE c.relkind IN ('r', 'p') AND c.relname = ANY($1::text[])
+		`,
+		unresolved.map(({ table }) => table),
+	);
+
+	for (const { model, table } of unresolved) {
+		const candidates = pgTables.filter((t) => t.table_name === table);
+		const current = candidates.find((t) => t.in_current_schema);
+		if (current) {
+			tableSchemas[model] = current.schema_name;
+			continue;
+		}
+		if (candidates.length > 1) {
+			throw new Error(
+				`Table "${table}" exists in several schemas (${candidates
+					.map((t) => t.schema_name)
+					.join(", ")}), so Yates can't tell which one model ${model} uses`,
+			);
+		}
+		if (!candidates.length) {
+			throw new Error(`Could not find the table "${table}" of model ${model}`);
+		}
+		tableSchemas[model] = candidates[0].schema_name;
+	}
+
+	return tableSchemas;
+};
+
+/**
+ * Returns the escaped name of a table, qualified with its schema if it is known.
+ */
+export const qualifyTable = (table: string, schema?: string) =>
+	schema
+		? `${escapeIdentifier(schema)}.${escapeIdentifier(table)}`
+		: escapeIdentifier(table);
+
+/**
+ * Returns the escaped name of a model's table, qualified with its schema if it is known.
+ */
+export const qualifyModelTable = (
+	runtimeDataModel: RuntimeDataModel,
+	model: string,
+	tableSchemas?: TableSchemas,
+) => qualifyTable(getTableName(runtimeDataModel, model), tableSchemas?.[model]);
+
+/**
+ * Returns the distinct schemas that the tables are in.
+ */
+export const getSchemas = (tableSchemas: TableSchemas) =>
+	Array.from(new Set(Object.values(tableSchemas)));
+
+// The table privileges that user roles are granted, as RLS policies decide which rows they apply to
+export const TABLE_OPERATIONS = ["SELECT", "INSERT", "UPDATE", "DELETE"];
+// Every table privilege that a user role must not hold unless it is granted, including those that GRANT ALL gave it in older versions.
+// TRUNCATE isn't subject to RLS.
+export const TABLE_PRIVILEGES = [
+	...TABLE_OPERATIONS,
+	"TRUNCATE",
+	"REFERENCES",
+	"TRIGGER",
+];
+// The privileges that user roles are granted on the sequences and schemas of the models, so that they can insert rows with generated ids
+export const SEQUENCE_PRIVILEGES = ["USAGE", "SELECT"];
+export const SCHEMA_PRIVILEGES = ["USAGE"];
+
+/**
+ * Returns the escaped names of the join tables of implicit many-to-many relations, qualified with their schemas.
+ * Prisma names them after the relation, and puts them in the schema of the model whose name comes first.
+ */
+export const getJoinTables = (
+	runtimeDataModel: RuntimeDataModel,
+	tableSchemas?: TableSchemas,
+) => {
+	const joinTables = new Set<string>();
+	for (const model in runtimeDataModel.models) {
+		for (const field of runtimeDataModel.models[model].fields) {
+			if (field.kind !== "object" || !field.isList || !field.relationName) {
+				continue;
+			}
+			const opposite = runtimeDataModel.models[field.type]?.fields.find(
+				(f) =>
+					f !== field &&
+					f.relationName === field.relationName &&
+					f.type === model,
+			);
+			if (opposite?.isList) {
+				const [first] = [model, field.type].sort();
+				joinTables.add(
+					qualifyTable(`_${field.relationName}`, tableSchemas?.[first]),
+				);
+			}
+		}
+	}
+	return Array.from(joinTables);
+};
+
+/**
+ * Returns the statements that grant a user role the privileges it needs on the tables, sequences and schemas that the models use.
+ * Each table is granted exactly the privileges it is listed with, and every other table privilege is revoked,
+ * so the statements don't depend on each other or on the privileges the role already holds.
+ */
+export const grantRoleStatements = (
+	tableSchemas: TableSchemas,
+	role: string,
+	/** The privileges that the role is granted, keyed by qualified table name */
+	tablePrivileges: Record<string, string[]>,
+) => [
+	...getSchemas(tableSchemas).flatMap((schema) => [
+		`GRANT ${SCHEMA_PRIVILEGES.join(", ")} ON SCHEMA ${escapeIdentifier(
+			schema,
+		)} TO ${role};`,
+		`GRANT ${SEQUENCE_PRIVILEGES.join(
+			", ",
+		)} ON ALL SEQUENCES IN SCHEMA ${escapeIdentifier(schema)} TO ${role};`,
+	]),
+	...Object.entries(tablePrivileges).flatMap(([qualifiedTable, granted]) => {
+		const revoked = TABLE_PRIVILEGES.filter(
+			(privilege) => !granted.includes(privilege),
+		);
+		return [
+			...(granted.length
+				? [`GRANT ${granted.join(", ")} ON ${qualifiedTable} TO ${role};`]
+				: []),
+			...(revoked.length
+				? [`REVOKE ${revoked.join(", ")} ON ${qualifiedTable} FROM ${role};`]
+				: []),
+		];
+	}),
+];
+
+/**
+ * Returns the statements that grant a role every privilege on the tables, sequences and schemas that the models use.
+ */
+export const grantSchemaStatements = (
+	tableSchemas: TableSchemas,
+	role: string,
+) =>
+	getSchemas(tableSchemas).flatMap((schema) => [
+		`GRANT ALL ON ALL TABLES IN SCHEMA ${escapeIdentifier(schema)} TO ${role};`,
+		`GRANT ALL ON ALL SEQUENCES IN SCHEMA ${escapeIdentifier(
+			schema,
+		)} TO ${role};`,
+		`GRANT ALL ON SCHEMA ${escapeIdentifier(schema)} TO ${role};`,
+	]);
@@ -0,0 +1,89 @@
+// Runs a function inside a scope, e.g. `AsyncLocalStorage.run` with a store
+export type RunInScope = <T>(fn: () => T) => T;
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+const isObject = (value: unknown): value is Record<PropertyKey, unknown> =>
+	!!value && (typeof value === "object" || typeof value === "function");
+
+// Wraps the value returned by a client, model or request method, so that the requests it makes are also run in the scope
+const wrapResult = (value: unknown, run: RunInScope, models: string[]) => {
+	if (!isObject(value)) {
+		return value;
+	}
+	// Clients returned by `$extends`
+	if (typeof value.$transaction === "function") {
+		return scopeClient(value, run, models);
+	}
+	// Prisma requests
+	if (typeof value.then === "function") {
+		return scopeRequest(value, run, models);
+	}
+	return value;
+};
+
+// Wraps an object so that its methods are called in the scope and their results are wrapped.
+// `get` can override the value of a property, which is returned as is.
+const scopeMethods = <T extends object>(
+	target: T,
+	run: RunInScope,
+	models: string[],
+	get?: (prop: PropertyKey) => unknown,
+): T =>
+	new Proxy(target, {
+		get(obj, prop) {
+			const override = get?.(prop);
+			if (override !== undefined) {
+				return override;
+			}
+			const value = Reflect.get(obj, prop);
+			if (typeof value !== "function") {
+				return value;
+			}
+			return (...args: unknown[]) =>
+				wrapResult(
+					run(() => (value as AnyFunction).apply(obj, args)),
+					run,
+					models,
+				);
+		},
+	});
+
+// Prisma requests are only started once they are awaited or attached to a batch transaction, so they are started in the scope at that point.
+// Callbacks are attached outside of the scope, so that code that runs after the request isn't run in the scope.
+const scopeRequest = <T extends Record<PropertyKey, unknown>>(
+	request: T,
+	run: RunInScope,
+	models: string[],
+): T =>
+	scopeMethods(request, run, models, (prop) => {
+		if (prop === "then" || prop === "catch" || prop === "finally") {
+			return (...args: unknown[]) => {
+				const started = run(() =>
+					(request.then as AnyFunction).call(request),
+				) as Promise<unknown>;
+				return (started[prop] as AnyFunction).apply(started, args);
+			};
+		}
+		return undefined;
+	});
+
+/**
+ * Wraps a Prisma client so that every request made with it is run in the scope, including requests made with its model delegates,
+ * the fluent API, transactions and clients returned by `$extends`.
+ * `models` are the names of the model delegates on the client.
+ */
+export const scopeClient = <T extends object>(
+	client: T,
+	run: RunInScope,
+	models: string[],
+): T =>
+	scopeMethods(client, run, models, (prop) => {
+		if (typeof prop === "string" && models.includes(prop)) {
+			const delegate = Reflect.get(client, prop);
+			return isObject(delegate)
+				? scopeMethods(delegate, run, models)
+				: delegate;
+		}
+		return undefined;
+	});
@@ -0,0 +1,40 @@
+import { PrismaClient } from "@prisma/client";
+import { PlanOperation } from "./plan";
+import { getPruneOperations } from "./prune";
+
+/**
+ * Returns the operations that remove everything Yates has set up: its policies, the `_yates._yates_abilities` table,
+ * and its user, ability, composite and bypass roles. RLS is left enabled on the tables, and the audit log is kept.
+ */
+export const getTeardownOperations = async (
+	prisma: PrismaClient,
+): Promise<PlanOperation[]> => {
+	const policies: Array<{
+		policyname: string;
+		tablename: string;
+		schemaname: string;
+	}> = await prisma.$queryRawUnsafe(`
+		SELECT policyname, tablename, schemaname FROM pg_catalog.pg_policies WHERE policyname LIKE 'yates%'
+	`);
+	const roles: Array<{ rolname: string }> = await prisma.$queryRawUnsafe(`
+		SELECT rolname FROM pg_catalog.pg_roles WHERE rolname LIKE 'yates%' ORDER BY rolname
+	`);
+
+	// Every policy and role is dropped as if it were orphaned, and the abilities table is dropped as a whole
+	return [
+		...getPruneOperations({
+			roles: roles.map(({ rolname }) => rolname),
+			policies: policies.map(({ policyname, tablename, schemaname }) => ({
+				policy: policyname,
+				table: tablename,
+				schema: schemaname,
+			})),
+			abilities: [],
+		}),
+		{
+			type: "delete_ability",
+			target: "_yates._yates_abilities",
+			sql: "DROP TABLE IF EXISTS _yates._yates_abilities",
+		},
+	];
+};
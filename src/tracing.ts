@@ -0,0 +1,88 @@
+export type YatesSpanAttributes = Record<
+	string,
+	string | number | boolean | string[] | undefined
+>;
+
+export interface YatesSpan {
+	setAttribute(key: string, value: string | number | boolean | string[]): void;
+	recordException(error: Error): void;
+	end(): void;
+}
+
+/**
+ * A minimal tracer interface that Yates uses to report spans.
+ * The interface is modelled on OpenTelemetry, so an OpenTelemetry tracer can be adapted to it with a small wrapper.
+ */
+export interface YatesTracer {
+	startSpan(name: string, attributes?: YatesSpanAttributes): YatesSpan;
+}
+
+const noopSpan: YatesSpan = {
+	setAttribute() {},
+	recordException() {},
+	end() {},
+};
+
+// The default tracer, which does nothing
+export const noopTracer: YatesTracer = {
+	startSpan: () => noopSpan,
+};
+
+export interface InMemorySpan {
+	name: string;
+	attributes: YatesSpanAttributes;
+	exceptions: Error[];
+	startTime: number;
+	endTime?: number;
+}
+
+/**
+ * A tracer that records spans in memory, useful for testing and local debugging.
+ */
+export class InMemoryTracer implements YatesTracer {
+	spans: InMemorySpan[] = [];
+
+	startSpan(name: string, attributes: YatesSpanAttributes = {}): YatesSpan {
+		const span: InMemorySpan = {
+			name,
+			attributes: { ...attributes },
+			exceptions: [],
+			startTime: performance.now(),
+		};
+		this.spans.push(span);
+
+		return {
+			setAttribute(key, value) {
+				span.attributes[key] = value;
+			},
+			recordException(error) {
+				span.exceptions.push(error);
+			},
+			end() {
+				span.endTime = performance.now();
+			},
+		};
+	}
+
+	reset() {
+		this.spans = [];
+	}
+}
+
+// Runs the callback inside a span, recording any exception and making sure the span is always ended
+export const withSpan = async <T>(
+	tracer: YatesTracer,
+	name: string,
+	attributes: YatesSpanAttributes,
+	fn: (span: YatesSpan) => Promise<T>,
+): Promise<T> => {
+	const span = tracer.startSpan(name, attributes);
+	try {
+		return await fn(span);
+	} catch (e) {
+		span.recordException(e);
+		throw e;
+	} finally {
+		span.end();
+	}
+};
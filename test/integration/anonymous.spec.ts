@@ -0,0 +1,152 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { InMemoryTracer, createRoleName, setup } from "../../src";
+
+describe("anonymous role", () => {
+	it("should run anonymous requests as the anonymous role", async () => {
+		const role = `ANONYMOUS_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			anonymousRole: role,
+			getContext: () => ({
+				anonymous: true,
+			}),
+		});
+
+		const posts = await client.post.findMany();
+
+		expect(Array.isArray(posts)).toBe(true);
+
+		await expect(
+			client.post.create({
+				data: {
+					title: `Test post from ${role}`,
+				},
+			}),
+		).rejects.toThrow("You do not have permission to perform this action");
+	});
+
+	it("should throw if an anonymous context is returned without an anonymous role", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				anonymous: true,
+			}),
+		});
+
+		await expect(client.post.findMany()).rejects.toThrow(
+			"getContext returned an anonymous context, but no anonymousRole was passed to setup",
+		);
+	});
+
+	it("should throw during setup if the anonymous role is not defined", async () => {
+		const role = `USER_${uuid()}`;
+
+		await expect(
+			setup({
+				prisma: new PrismaClient(),
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				anonymousRole: `ANONYMOUS_${uuid()}`,
+				getContext: () => ({
+					anonymous: true,
+				}),
+			}),
+		).rejects.toThrow("must be one of the roles returned by getRoles");
+	});
+
+	it("should validate the anonymous role before changing the database", async () => {
+		const tracer = new InMemoryTracer();
+		const role = `USER_${uuid()}`;
+
+		await expect(
+			setup({
+				prisma: new PrismaClient(),
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				anonymousRole: `ANONYMOUS_${uuid()}`,
+				getContext: () => ({
+					anonymous: true,
+				}),
+				options: {
+					tracer,
+				},
+			}),
+		).rejects.toThrow("must be one of the roles returned by getRoles");
+
+		expect(tracer.spans.map((span) => span.name)).not.toContain(
+			"yates.setup.ability_table",
+		);
+	});
+});
+
+describe("strict mode", () => {
+	it("should throw if getContext returns null", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => null,
+			options: {
+				strict: true,
+			},
+		});
+
+		await expect(client.post.findMany()).rejects.toThrow(
+			"RLS can't be bypassed in strict mode",
+		);
+		await expect(
+			client.$transaction(async (tx) => tx.post.findMany()),
+		).rejects.toThrow("RLS can't be bypassed in strict mode");
+		await expect(client.$queryRaw`SELECT 1`).rejects.toThrow(
+			"RLS can't be bypassed in strict mode",
+		);
+	});
+
+	it("should run raw queries with the role, even if they are skipped", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({ role }),
+			options: {
+				strict: true,
+				rawQueries: "skip",
+			},
+		});
+
+		const result: Array<{ role: string }> =
+			await client.$queryRaw`SELECT current_setting('role') AS role`;
+
+		expect(result).toEqual([{ role: createRoleName(role) }]);
+	});
+});
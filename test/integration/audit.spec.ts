@@ -0,0 +1,225 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import {
+	YatesPermissionError,
+	createRoleName,
+	queryAuditLog,
+	setup,
+} from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("audit", () => {
+	it("should record inserts, updates and deletes with the acting role and context", async () => {
+		const role = `USER_${uuid()}`;
+		const userId = uuid();
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(_abilities) {
+				return {
+					[role]: "*",
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {
+					"user.id": userId,
+					"user.name": "alice",
+				},
+			}),
+			audit: {
+				models: ["Post"],
+				contextKeys: ["user.id"],
+			},
+		});
+
+		const post = await client.post.create({
+			data: {
+				title: `Test post from ${role}`,
+			},
+		});
+
+		await client.post.update({
+			where: {
+				id: post.id,
+			},
+			data: {
+				title: `Updated post from ${role}`,
+			},
+		});
+
+		await client.post.delete({
+			where: {
+				id: post.id,
+			},
+		});
+
+		const events = await queryAuditLog(adminClient, {
+			model: "Post",
+			context: {
+				"user.id": userId,
+			},
+		});
+
+		expect(events.map((event) => event.operation)).toEqual([
+			"DELETE",
+			"UPDATE",
+			"INSERT",
+		]);
+
+		const [deleted, updated, inserted] = events;
+
+		expect(inserted.before).toBeNull();
+		expect(inserted.after).toMatchObject({
+			id: post.id,
+			title: `Test post from ${role}`,
+		});
+		expect(updated.before).toMatchObject({
+			title: `Test post from ${role}`,
+		});
+		expect(updated.after).toMatchObject({
+			title: `Updated post from ${role}`,
+		});
+		expect(deleted.after).toBeNull();
+
+		for (const event of events) {
+			expect(event.table).toBe("Post");
+			expect(event.schema).toBe("public");
+			expect(event.role).toBe(role);
+			expect(event.pgRole).toBe(createRoleName(role));
+			// Only the configured context keys are recorded
+			expect(event.context).toEqual({
+				"user.id": userId,
+			});
+		}
+	});
+
+	it("should record writes that bypass RLS without a role", async () => {
+		const role = `USER_${uuid()}`;
+		const label = `Test tag from ${role}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(_abilities) {
+				return {
+					[role]: "*",
+				};
+			},
+			getContext: () => null,
+			audit: {
+				models: ["Tag"],
+			},
+		});
+
+		const tag = await client.tag.create({
+			data: {
+				label,
+			},
+		});
+
+		const events = await queryAuditLog(adminClient, {
+			model: "Tag",
+			limit: 10,
+		});
+
+		const event = events.find(
+			(e) => (e.after as { id: number } | null)?.id === tag.id,
+		);
+
+		expect(event?.operation).toBe("INSERT");
+		expect(event?.role).toBeNull();
+	});
+
+	it("should not record writes to models that are not audited", async () => {
+		const role = `USER_${uuid()}`;
+		const userId = uuid();
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(_abilities) {
+				return {
+					[role]: "*",
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {
+					"user.id": userId,
+				},
+			}),
+			audit: {
+				models: ["Post"],
+				contextKeys: ["user.id"],
+			},
+		});
+
+		await client.item.create({
+			data: {
+				value: 1,
+			},
+		});
+
+		const events = await queryAuditLog(adminClient, {
+			context: {
+				"user.id": userId,
+			},
+		});
+
+		expect(events).toHaveLength(0);
+	});
+
+	it("should only let the client query the audit log if the role has access to it", async () => {
+		const role = `USER_${uuid()}`;
+		const userId = uuid();
+		let bypass = false;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(_abilities) {
+				return {
+					[role]: "*",
+				};
+			},
+			getContext: () =>
+				bypass
+					? null
+					: {
+							role,
+							context: {
+								"user.id": userId,
+							},
+					  },
+			audit: {
+				models: ["Post"],
+				contextKeys: ["user.id"],
+			},
+		});
+
+		const post = await client.post.create({
+			data: {
+				title: `Test post from ${role}`,
+			},
+		});
+
+		await expect(client.$auditLog({ model: "Post" })).rejects.toThrow(
+			YatesPermissionError,
+		);
+
+		bypass = true;
+
+		const events = await client.$auditLog({
+			model: "Post",
+			context: {
+				"user.id": userId,
+			},
+		});
+
+		expect(events).toHaveLength(1);
+		expect(events[0].after).toMatchObject({ id: post.id });
+	});
+});
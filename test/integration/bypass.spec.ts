@@ -0,0 +1,135 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import {
+	InMemoryTracer,
+	createBypassRoleName,
+	queryAuditLog,
+	setup,
+} from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("bypass accounts", () => {
+	it("should bypass RLS and record the bypass", async () => {
+		const tracer = new InMemoryTracer();
+		const role = `USER_${uuid()}`;
+		const account = `billing-worker-${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			bypass: {
+				[account]: {
+					reason: "Reconciles invoices",
+					audit: true,
+				},
+			},
+			getContext: () => ({
+				bypass: account,
+			}),
+			options: {
+				tracer,
+				strict: true,
+			},
+		});
+
+		tracer.reset();
+
+		const post = await client.post.create({
+			data: {
+				title: `Test post from ${account}`,
+			},
+		});
+
+		expect(post.id).toBeDefined();
+
+		const bypassSpan = tracer.spans.find(
+			(span) => span.name === "yates.bypass",
+		);
+
+		expect(bypassSpan?.attributes).toEqual({
+			"yates.bypass": account,
+			"yates.bypass.reason": "Reconciles invoices",
+			"yates.bypass.mode": "connection",
+			"yates.model": "Post",
+			"yates.operation": "create",
+		});
+
+		const events = await queryAuditLog(adminClient, {
+			operation: "BYPASS",
+			role: `bypass:${account}`,
+		});
+
+		expect(events).toHaveLength(1);
+		expect(events[0].table).toBe("Post");
+		expect(events[0].after).toEqual({
+			operation: "create",
+			reason: "Reconciles invoices",
+		});
+	});
+
+	it("should run queries as a BYPASSRLS role in role mode", async () => {
+		const role = `USER_${uuid()}`;
+		const account = `billing-worker-${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			bypass: {
+				[account]: {
+					reason: "Reconciles invoices",
+					mode: "role",
+				},
+			},
+			getContext: () => ({
+				bypass: account,
+			}),
+		});
+
+		const post = await client.post.create({
+			data: {
+				title: `Test post from ${account}`,
+			},
+		});
+
+		expect(post.id).toBeDefined();
+
+		const result: { role: string }[] = await client.$transaction(
+			async (tx) => tx.$queryRaw`SELECT current_setting('role') AS role`,
+		);
+
+		expect(result[0].role).toBe(createBypassRoleName(account));
+	});
+
+	it("should throw if the bypass account is not defined", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				bypass: "unknown",
+			}),
+		});
+
+		await expect(client.post.findMany()).rejects.toThrow(
+			"getContext returned an unknown bypass account: unknown",
+		);
+	});
+});
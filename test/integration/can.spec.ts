@@ -0,0 +1,267 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("$can", () => {
+	it("should check permissions for each operation without changing any data", async () => {
+		const role = `USER_${uuid()}`;
+		const title = `Test post from ${role}`;
+
+		const post = await adminClient.post.create({
+			data: {
+				title,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Post: {
+					updateOwnTitle: {
+						description: "Update posts with a matching title",
+						operation: "UPDATE",
+						expression: `title = '${title}'`,
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read, abilities.Post.updateOwnTitle],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		expect(await client.$can("Post", "SELECT", post.id)).toBe(true);
+		expect(await client.$can("Post", "UPDATE", post.id)).toBe(true);
+		expect(await client.$can("Post", "DELETE", post.id)).toBe(false);
+		expect(await client.$can("Post", "INSERT", { title })).toBe(false);
+
+		// The checks are always rolled back
+		const unchanged = await adminClient.post.findUnique({
+			where: {
+				id: post.id,
+			},
+		});
+		expect(unchanged).toEqual(post);
+		expect(await adminClient.post.count({ where: { title } })).toBe(1);
+	});
+
+	it("should return false for rows that don't pass the policy expression", async () => {
+		const role = `USER_${uuid()}`;
+
+		const post = await adminClient.post.create({
+			data: {
+				title: `Test post from ${role}`,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Post: {
+					updateTest: {
+						description: "Update posts titled 'test'",
+						operation: "UPDATE",
+						expression: "title = 'test'",
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read, abilities.Post.updateTest],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		expect(await client.$can("Post", "UPDATE", post.id)).toBe(false);
+		expect(
+			await client.$can("Post", "UPDATE", { id: post.id, published: false }),
+		).toBe(false);
+	});
+
+	it("should check UPDATE permissions for roles that can only update some fields", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@test.com`,
+				name: role,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				User: {
+					updateName: {
+						description: "Update the name of users",
+						operation: "UPDATE",
+						expression: "true",
+						fields: ["name"],
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.User.read, abilities.User.updateName],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		expect(await client.$can("User", "UPDATE", user.id)).toBe(true);
+
+		const unchanged = await adminClient.user.findUnique({
+			where: {
+				id: user.id,
+			},
+		});
+		expect(unchanged).toEqual(user);
+	});
+
+	it("should return false if the role can't read the ID column of the row", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@test.com`,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				User: {
+					readEmail: {
+						description: "Read the email of users",
+						operation: "SELECT",
+						expression: "true",
+						fields: ["email"],
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.User.readEmail],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		await expect(client.$can("User", "SELECT", user.id)).resolves.toBe(false);
+		await expect(client.$can("User", "DELETE", user.id)).resolves.toBe(false);
+	});
+
+	it("should report operations that only fail because of a constraint as permitted", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@test.com`,
+			},
+		});
+		const organization = await adminClient.organization.create({
+			data: {
+				name: `Organization ${uuid()}`,
+			},
+		});
+		const orgRole = await adminClient.role.create({
+			data: {
+				name: `Role ${uuid()}`,
+			},
+		});
+		// The role assignment references the user, so the user can't be deleted
+		await adminClient.roleAssignment.create({
+			data: {
+				userId: user.id,
+				organizationId: organization.id,
+				roleId: orgRole.id,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [
+						abilities.User.read,
+						abilities.User.create,
+						abilities.User.delete,
+					],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		await expect(client.$can("User", "DELETE", user.id)).resolves.toBe(true);
+		// The email is unique
+		await expect(
+			client.$can("User", "INSERT", { email: user.email }),
+		).resolves.toBe(true);
+
+		const unchanged = await adminClient.user.findUnique({
+			where: {
+				id: user.id,
+			},
+		});
+		expect(unchanged).toEqual(user);
+	});
+
+	it("should check INSERT permissions against the candidate row data", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Post: {
+					createTest: {
+						description: "Create posts titled 'test'",
+						operation: "INSERT",
+						expression: "title = 'test'",
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.createTest],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		expect(await client.$can("Post", "INSERT", { title: "test" })).toBe(true);
+		expect(await client.$can("Post", "INSERT", { title: role })).toBe(false);
+	});
+
+	it("should return true if RLS is bypassed", async () => {
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(_abilities) {
+				return {};
+			},
+			getContext: () => null,
+		});
+
+		expect(await client.$can("Post", "DELETE", 1)).toBe(true);
+	});
+});
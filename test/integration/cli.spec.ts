@@ -0,0 +1,98 @@
+import * as path from "path";
+import { createAbilityName, createRoleName } from "../../src";
+import { run } from "../../src/cli";
+
+const config = path.join(__dirname, "fixtures", "yates.config.js");
+
+const captureOutput = async (argv: string[]) => {
+	const log = jest.spyOn(console, "log").mockImplementation(() => {});
+	const error = jest.spyOn(console, "error").mockImplementation(() => {});
+	try {
+		await run(argv);
+		return {
+			stdout: log.mock.calls.map((args) => args.join(" ")).join("\n"),
+			stderr: error.mock.calls.map((args) => args.join(" ")).join("\n"),
+		};
+	} finally {
+		log.mockRestore();
+		error.mockRestore();
+	}
+};
+
+afterEach(() => {
+	process.exitCode = undefined;
+});
+
+describe("cli", () => {
+	it("should apply the config and then verify it", async () => {
+		await captureOutput(["apply", "--config", config]);
+
+		const { stdout } = await captureOutput(["verify", "--config", config]);
+
+		expect(stdout).toContain("The database matches the Yates configuration");
+		expect(process.exitCode).toBeUndefined();
+	});
+
+	it("should print the plan as JSON", async () => {
+		await captureOutput(["apply", "--config", config]);
+
+		const { stdout } = await captureOutput([
+			"plan",
+			"--config",
+			config,
+			"--json",
+		]);
+
+		expect(Array.isArray(JSON.parse(stdout))).toBe(true);
+	});
+
+	it("should list the roles, abilities and policies", async () => {
+		await captureOutput(["apply", "--config", config]);
+
+		const { stdout } = await captureOutput([
+			"inspect",
+			"--config",
+			config,
+			"--json",
+		]);
+		const { roles, abilities, policies } = JSON.parse(stdout);
+
+		expect(roles).toContain(createRoleName("CLI_USER"));
+		expect(abilities).toContainEqual(
+			expect.objectContaining({
+				ability_policy_name: createAbilityName("Post", "read"),
+			}),
+		);
+		expect(policies).toContainEqual(
+			expect.objectContaining({
+				policyname: createAbilityName("Post", "read"),
+			}),
+		);
+	});
+
+	it("should print the SQL of an ability", async () => {
+		const { stdout } = await captureOutput([
+			"compile",
+			"Post",
+			"read",
+			"--config",
+			config,
+		]);
+
+		expect(stdout).toBe("true");
+	});
+
+	it("should only list the teardown operations without --yes", async () => {
+		const { stdout, stderr } = await captureOutput([
+			"teardown",
+			"--config",
+			config,
+		]);
+
+		expect(stdout).toContain(
+			`DROP ROLE IF EXISTS ${createRoleName("CLI_USER")}`,
+		);
+		expect(stderr).toContain("Run with --yes");
+		expect(process.exitCode).toBe(1);
+	});
+});
@@ -0,0 +1,113 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { YatesPermissionError, createRoleName, setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("errors", () => {
+	it("should throw a YatesPermissionError if a row violates an RLS policy", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		expect.assertions(7);
+
+		try {
+			await client.post.create({
+				data: {
+					title: `Test post from ${role}`,
+				},
+			});
+		} catch (e) {
+			expect(e).toBeInstanceOf(YatesPermissionError);
+			expect(e.model).toBe("Post");
+			expect(e.operation).toBe("create");
+			expect(e.role).toBe(role);
+			expect(e.table).toBe("Post");
+			expect(e.code).toBe("42501");
+			expect(e.originalError.message).toContain(
+				"new row violates row-level security policy",
+			);
+		}
+	});
+
+	it("should throw a YatesPermissionError if the role doesn't have privileges on a table", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Item.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		await adminClient.$executeRawUnsafe(
+			`REVOKE ALL ON "Item" FROM ${createRoleName(role)}`,
+		);
+
+		expect.assertions(6);
+
+		try {
+			await client.item.findMany();
+		} catch (e) {
+			expect(e).toBeInstanceOf(YatesPermissionError);
+			expect(e.model).toBe("Item");
+			expect(e.operation).toBe("findMany");
+			expect(e.role).toBe(role);
+			expect(e.table).toBe("Item");
+			expect(e.code).toBe("42501");
+		}
+	});
+
+	it("should throw a YatesPermissionError from an interactive transaction", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Tag.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		expect.assertions(4);
+
+		try {
+			await client.$transaction(async (tx) => {
+				await tx.tag.create({
+					data: {
+						label: `Test tag from ${role}`,
+					},
+				});
+			});
+		} catch (e) {
+			expect(e).toBeInstanceOf(YatesPermissionError);
+			expect(e.model).toBeUndefined();
+			expect(e.operation).toBe("$transaction");
+			expect(e.table).toBe("Tag");
+		}
+	});
+});
@@ -0,0 +1,100 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { explainAccess, setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("explainAccess", () => {
+	it("should report which abilities pass, fail or are missing for a row", async () => {
+		const role = `USER_${uuid()}`;
+		const title = `Test post from ${role}`;
+
+		const post = await adminClient.post.create({
+			data: {
+				title,
+			},
+		});
+
+		await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Post: {
+					readWithTitle: {
+						description: "Read posts with the title in the context",
+						operation: "SELECT",
+						expression: "current_setting('post.title') = title",
+					},
+					updatePublished: {
+						description: "Update published posts",
+						operation: "UPDATE",
+						expression: "published = true",
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [
+						abilities.Post.readWithTitle,
+						abilities.Post.updatePublished,
+						abilities.Post.delete,
+					],
+				};
+			},
+			getContext: () => null,
+		});
+
+		const explanation = await explainAccess(adminClient, {
+			role,
+			context: {
+				"post.title": title,
+			},
+			model: "Post",
+			where: {
+				id: post.id,
+			},
+		});
+
+		const statuses = Object.fromEntries(
+			explanation.abilities.map((ability) => [ability.ability, ability]),
+		);
+
+		expect(statuses.readWithTitle).toEqual({
+			ability: "readWithTitle",
+			description: "Read posts with the title in the context",
+			operation: "SELECT",
+			status: "pass",
+		});
+		expect(statuses.updatePublished.status).toBe("fail");
+		expect(statuses.delete.status).toBe("pass");
+		expect(statuses.create.status).toBe("missing");
+		expect(statuses.read.status).toBe("missing");
+	});
+
+	it("should throw if no row matches the where clause", async () => {
+		const role = `USER_${uuid()}`;
+
+		await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => null,
+		});
+
+		await expect(
+			explainAccess(adminClient, {
+				role,
+				model: "Post",
+				where: {
+					title: `Missing post from ${role}`,
+				},
+			}),
+		).rejects.toThrow("No Post row matches the given where clause");
+	});
+});
@@ -0,0 +1,212 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { createRoles, yatesExtension } from "../../src";
+
+describe("yatesExtension", () => {
+	it("should apply RLS when used as a Prisma extension", async () => {
+		const prisma = new PrismaClient();
+		const role = `USER_${uuid()}`;
+
+		const roles = await createRoles({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		const client = prisma.$extends(
+			yatesExtension({
+				getContext: () => ({
+					role,
+				}),
+				roles,
+			}),
+		);
+
+		await expect(
+			client.post.create({
+				data: {
+					title: `Test post from ${role}`,
+				},
+			}),
+		).rejects.toThrow("You do not have permission to perform this action");
+	});
+
+	it("should run query extensions applied after Yates inside the Yates transaction", async () => {
+		const prisma = new PrismaClient();
+		const role = `USER_${uuid()}`;
+
+		await createRoles({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		const calls: { extension: string; transaction?: string }[] = [];
+
+		const client = prisma
+			.$extends({
+				query: {
+					$allModels: {
+						// biome-ignore lint/suspicious/noExplicitAny: The internal params aren't typed
+						$allOperations({ args, query, ...params }: any) {
+							calls.push({
+								extension: "before",
+								transaction: params.__internalParams.transaction?.kind,
+							});
+							return query(args);
+						},
+					},
+				},
+			})
+			.$extends(
+				yatesExtension({
+					getContext: () => ({
+						role,
+					}),
+				}),
+			)
+			.$extends({
+				query: {
+					$allModels: {
+						// biome-ignore lint/suspicious/noExplicitAny: The internal params aren't typed
+						$allOperations({ args, query, ...params }: any) {
+							calls.push({
+								extension: "after",
+								transaction: params.__internalParams.transaction?.kind,
+							});
+							return query(args);
+						},
+					},
+				},
+			});
+
+		await client.post.findMany();
+
+		expect(calls).toEqual([
+			{ extension: "before", transaction: undefined },
+			{ extension: "after", transaction: "itx" },
+		]);
+	});
+
+	it("should keep extensions applied after Yates in clients returned by $as", async () => {
+		const prisma = new PrismaClient();
+		const role = `USER_${uuid()}`;
+		const title = `Test post from ${role}`;
+
+		await prisma.post.create({
+			data: {
+				title,
+			},
+		});
+
+		await createRoles({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		const client = prisma
+			.$extends(
+				yatesExtension({
+					getContext: () => null,
+				}),
+			)
+			.$extends({
+				result: {
+					post: {
+						shout: {
+							needs: { title: true },
+							compute: (post) => post.title.toUpperCase(),
+						},
+					},
+				},
+			});
+
+		const scoped = client.$as({ role });
+
+		const posts = await scoped.post.findMany({
+			where: {
+				title,
+			},
+		});
+
+		expect(posts.map((post) => post.shout)).toEqual([title.toUpperCase()]);
+
+		await expect(
+			scoped.post.create({
+				data: {
+					title,
+				},
+			}),
+		).rejects.toThrow("You do not have permission to perform this action");
+	});
+
+	it("should keep extensions applied after Yates in interactive transactions", async () => {
+		const prisma = new PrismaClient();
+		const role = `USER_${uuid()}`;
+		const title = `Test post from ${role}`;
+
+		await prisma.post.create({
+			data: {
+				title,
+			},
+		});
+
+		await createRoles({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		const client = prisma
+			.$extends(
+				yatesExtension({
+					getContext: () => ({
+						role,
+					}),
+				}),
+			)
+			.$extends({
+				result: {
+					post: {
+						shout: {
+							needs: { title: true },
+							compute: (post) => post.title.toUpperCase(),
+						},
+					},
+				},
+			});
+
+		const posts = await client.$transaction(async (tx) =>
+			tx.post.findMany({
+				where: {
+					title,
+				},
+			}),
+		);
+
+		expect(posts.map((post) => post.shout)).toEqual([title.toUpperCase()]);
+
+		await expect(
+			client.$transaction(async (tx) =>
+				tx.post.create({
+					data: {
+						title,
+					},
+				}),
+			),
+		).rejects.toThrow("You do not have permission to perform this action");
+	});
+});
@@ -0,0 +1,189 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { YatesPermissionError, setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("fields", () => {
+	it("should only allow the role to read the fields of a column-restricted ability", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@test.com`,
+				name: role,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				User: {
+					readWithoutEmail: {
+						description: "Read users without their email",
+						operation: "SELECT",
+						expression: "true",
+						fields: ["id", "createdAt", "name"],
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.User.readWithoutEmail],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const result = await client.user.findUnique({
+			where: {
+				id: user.id,
+			},
+			select: {
+				id: true,
+				name: true,
+			},
+		});
+
+		expect(result).toEqual({
+			id: user.id,
+			name: role,
+		});
+
+		expect.assertions(5);
+
+		try {
+			await client.user.findUnique({
+				where: {
+					id: user.id,
+				},
+			});
+		} catch (e) {
+			expect(e).toBeInstanceOf(YatesPermissionError);
+			expect(e.allowedFields).toEqual({
+				SELECT: ["id", "createdAt", "name"],
+			});
+			expect(e.message).toContain(
+				"Only these fields can be accessed: SELECT (id, createdAt, name)",
+			);
+		}
+	});
+
+	it("should allow every field if the role also holds an unrestricted ability", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@test.com`,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				User: {
+					readWithoutEmail: {
+						description: "Read users without their email",
+						operation: "SELECT",
+						expression: "true",
+						fields: ["id", "createdAt", "name"],
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.User.readWithoutEmail, abilities.User.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const result = await client.user.findUnique({
+			where: {
+				id: user.id,
+			},
+		});
+
+		expect(result?.email).toBe(user.email);
+	});
+
+	it("should not allow restricted fields to leak when roles are combined", async () => {
+		const restrictedRole = `USER_${uuid()}`;
+		const otherRole = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@test.com`,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				User: {
+					readWithoutEmail: {
+						description: "Read users without their email",
+						operation: "SELECT",
+						expression: "true",
+						fields: ["id", "createdAt", "name"],
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[restrictedRole]: [abilities.User.readWithoutEmail],
+					[otherRole]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				roles: [restrictedRole, otherRole],
+			}),
+		});
+
+		await expect(
+			client.user.findUnique({
+				where: {
+					id: user.id,
+				},
+			}),
+		).rejects.toThrow("Only these fields can be accessed");
+	});
+
+	it("should throw if an ability has invalid fields", async () => {
+		const role = `USER_${uuid()}`;
+
+		await expect(
+			setup({
+				prisma: new PrismaClient(),
+				customAbilities: {
+					User: {
+						deleteWithFields: {
+							description: "Delete users",
+							operation: "DELETE",
+							expression: "true",
+							fields: ["id"],
+						},
+					},
+				},
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.User.deleteWithFields],
+					};
+				},
+				getContext: () => ({
+					role,
+				}),
+			}),
+		).rejects.toThrow(
+			"fields can only be used with SELECT, INSERT and UPDATE abilities",
+		);
+	});
+});
@@ -0,0 +1,11 @@
+const { PrismaClient } = require("@prisma/client");
+
+module.exports = {
+	prisma: new PrismaClient(),
+	getRoles(abilities) {
+		return {
+			CLI_USER: [abilities.Post.read],
+		};
+	},
+	getContext: () => null,
+};
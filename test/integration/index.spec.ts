@@ -140,6 +140,44 @@ describe("setup", () => {
 
 			expect(post.id).toBeDefined();
 		});
+		it("should allow .getContext() to be async", async () => {
+			const prisma = new PrismaClient();
+
+			const role = `USER_${uuid()}`;
+			const userId = uuid();
+
+			const client = await setup({
+				prisma,
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				getContext: async () => {
+					await new Promise((resolve) => setTimeout(resolve, 10));
+					return {
+						role,
+						context: {
+							"user.id": userId,
+						},
+					};
+				},
+			});
+
+			await expect(
+				client.post.create({
+					data: {
+						title: `Test post from ${role}`,
+					},
+				}),
+			).rejects.toThrow("You do not have permission to perform this action");
+
+			const result: { current_setting: string }[] = await client.$transaction(
+				(tx) => tx.$queryRaw`SELECT current_setting('user.id')`,
+			);
+
+			expect(result[0].current_setting).toBe(userId);
+		});
 	});
 
 	describe("params.customAbilities", () => {
@@ -358,4 +396,95 @@ describe("setup", () => {
 			expect(exists2).not.toBeNull();
 		});
 	});
+
+	describe("client", () => {
+		it("should set the role and context in a single statement", async () => {
+			const prisma = new PrismaClient({
+				log: [{ emit: "event", level: "query" }],
+			});
+			const queries: string[] = [];
+			prisma.$on("query", (e) => {
+				queries.push(e.query);
+			});
+
+			const role = `USER_${uuid()}`;
+
+			const client = await setup({
+				prisma,
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				getContext: () => ({
+					role,
+					context: {
+						"user.id": uuid(),
+						"user.name": "alice",
+					},
+				}),
+			});
+
+			queries.length = 0;
+
+			await client.post.findMany();
+
+			// Transaction control statements are excluded, so that only the statements run inside the transaction are counted
+			const statements = queries.filter(
+				(query) => !query.match(/^(BEGIN|COMMIT|ROLLBACK)/),
+			);
+
+			expect(statements).toHaveLength(2);
+			expect(statements[0]).toMatch(/^SELECT set_config/);
+			expect(statements).not.toContain("SET ROLE none");
+		});
+
+		it("should run queries with the role and context passed to client.$as()", async () => {
+			const prisma = new PrismaClient();
+
+			const role = `USER_${uuid()}`;
+			const userId = uuid();
+
+			const client = await setup({
+				prisma,
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				// The scoped client should ignore this function
+				getContext: () => null,
+			});
+
+			const scoped = client.$as({
+				role,
+				context: {
+					"user.id": userId,
+				},
+			});
+
+			await expect(
+				scoped.post.create({
+					data: {
+						title: `Test post from ${role}`,
+					},
+				}),
+			).rejects.toThrow("You do not have permission to perform this action");
+
+			const result: { current_setting: string }[] = await scoped.$transaction(
+				(tx) => tx.$queryRaw`SELECT current_setting('user.id')`,
+			);
+
+			expect(result[0].current_setting).toBe(userId);
+
+			// The original client is not affected
+			const post = await client.post.create({
+				data: {
+					title: `Test post from ${role}`,
+				},
+			});
+
+			expect(post.id).toBeDefined();
+		});
+	});
 });
@@ -0,0 +1,230 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { createRoleName, setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("role inheritance", () => {
+	it("should give a role the abilities of the roles it extends", async () => {
+		const user = `USER_${uuid()}`;
+		const admin = `ADMIN_${uuid()}`;
+
+		const post = await adminClient.post.create({
+			data: {
+				title: `Test post ${uuid()}`,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[user]: [abilities.Post.read],
+					[admin]: {
+						extends: [user],
+						abilities: [abilities.Post.create],
+					},
+				};
+			},
+			getContext: () => ({
+				role: admin,
+			}),
+		});
+
+		const result = await client.post.findUnique({
+			where: { id: post.id },
+		});
+
+		expect(result).toEqual(post);
+
+		const created = await client.post.create({
+			data: {
+				title: `Test post from ${admin}`,
+			},
+		});
+
+		expect(created.id).toBeDefined();
+
+		await expect(
+			client.$as({ role: user }).post.create({
+				data: {
+					title: `Test post from ${user}`,
+				},
+			}),
+		).rejects.toThrow();
+	});
+
+	it("should grant the roles that a role extends to it in PG", async () => {
+		const user = `USER_${uuid()}`;
+		const admin = `ADMIN_${uuid()}`;
+
+		await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[admin]: {
+						extends: [user],
+					},
+					[user]: [abilities.Post.read],
+				};
+			},
+			getContext: () => null,
+		});
+
+		const memberships: Array<{ member: string }> =
+			await adminClient.$queryRawUnsafe(
+				`SELECT m.member::regrole::text AS member
+				FROM pg_catalog.pg_auth_members m
+				WHERE m.roleid = $1::regrole`,
+				createRoleName(user),
+			);
+
+		expect(memberships).toEqual([{ member: createRoleName(admin) }]);
+	});
+
+	it("should keep inherited abilities when a role's own abilities change", async () => {
+		const user = `USER_${uuid()}`;
+		const admin = `ADMIN_${uuid()}`;
+
+		const post = await adminClient.post.create({
+			data: {
+				title: `Test post ${uuid()}`,
+			},
+		});
+
+		const prisma = new PrismaClient();
+
+		await setup({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[user]: [abilities.Post.read],
+					[admin]: [abilities.Post.read, abilities.Post.create],
+				};
+			},
+			getContext: () => null,
+		});
+
+		// The read ability is now only inherited from the user role
+		const client = await setup({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[user]: [abilities.Post.read],
+					[admin]: {
+						extends: [user],
+						abilities: [abilities.Post.create],
+					},
+				};
+			},
+			getContext: () => ({
+				role: admin,
+			}),
+		});
+
+		const result = await client.post.findUnique({
+			where: { id: post.id },
+		});
+
+		expect(result).toEqual(post);
+	});
+
+	it("should remove inherited abilities when a role stops extending another role", async () => {
+		const user = `USER_${uuid()}`;
+		const admin = `ADMIN_${uuid()}`;
+
+		const post = await adminClient.post.create({
+			data: {
+				title: `Test post ${uuid()}`,
+			},
+		});
+
+		const prisma = new PrismaClient();
+
+		await setup({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[user]: [abilities.Post.read],
+					[admin]: {
+						extends: [user],
+						abilities: [abilities.Post.create],
+					},
+				};
+			},
+			getContext: () => null,
+		});
+
+		const client = await setup({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[user]: [abilities.Post.read],
+					[admin]: [abilities.Post.create],
+				};
+			},
+			getContext: () => ({
+				role: admin,
+			}),
+		});
+
+		const result = await client.post.findUnique({
+			where: { id: post.id },
+		});
+
+		expect(result).toBeNull();
+
+		// The user role keeps the ability
+		const userResult = await client.$as({ role: user }).post.findUnique({
+			where: { id: post.id },
+		});
+
+		expect(userResult).toEqual(post);
+	});
+
+	it("should throw if roles extend each other in a cycle", async () => {
+		const a = `A_${uuid()}`;
+		const b = `B_${uuid()}`;
+
+		await expect(
+			setup({
+				prisma: new PrismaClient(),
+				getRoles(abilities) {
+					return {
+						[a]: {
+							extends: [b],
+							abilities: [abilities.Post.read],
+						},
+						[b]: {
+							extends: [a],
+						},
+					};
+				},
+				getContext: () => null,
+			}),
+		).rejects.toThrow(`Role inheritance cycle: ${a} -> ${b} -> ${a}`);
+	});
+
+	it("should throw if a role extends an unknown role", async () => {
+		const role = `USER_${uuid()}`;
+
+		await expect(
+			setup({
+				prisma: new PrismaClient(),
+				getRoles(abilities) {
+					return {
+						[role]: {
+							extends: ["UNKNOWN"],
+							abilities: [abilities.Post.read],
+						},
+					};
+				},
+				getContext: () => null,
+			}),
+		).rejects.toThrow(`Role "${role}" extends unknown role "UNKNOWN"`);
+	});
+});
@@ -0,0 +1,260 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { YatesPermissionError, setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("mapped models", () => {
+	it("should key abilities by the Prisma model name", async () => {
+		const role = `USER_${uuid()}`;
+
+		const comment = await adminClient.comment.create({
+			data: {
+				body: "Hello",
+				authorEmail: `test-${uuid()}@test.com`,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Comment.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const result = await client.comment.findUnique({
+			where: { id: comment.id },
+		});
+
+		expect(result).toEqual(comment);
+
+		await expect(
+			client.comment.create({
+				data: {
+					body: "Hello",
+					authorEmail: `test-${uuid()}@test.com`,
+				},
+			}),
+		).rejects.toThrow(YatesPermissionError);
+	});
+
+	it("should use mapped column names in where expressions", async () => {
+		const role = `USER_${uuid()}`;
+		const email = `test-${uuid()}@test.com`;
+
+		const ownComment = await adminClient.comment.create({
+			data: { body: "Own", authorEmail: email },
+		});
+		const otherComment = await adminClient.comment.create({
+			data: { body: "Other", authorEmail: `test-${uuid()}@test.com` },
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Comment: {
+					readOwn: {
+						description: "Read own comments",
+						operation: "SELECT",
+						expression: (_client: PrismaClient, _row, context) => {
+							return {
+								authorEmail: context("user.email"),
+							};
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Comment.readOwn],
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {
+					"user.email": email,
+				},
+			}),
+		});
+
+		const comments = await client.comment.findMany({
+			where: {
+				id: { in: [ownComment.id, otherComment.id] },
+			},
+		});
+
+		expect(comments).toEqual([ownComment]);
+	});
+
+	it("should use mapped table and column names for row references in client expressions", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@test.com`,
+			},
+		});
+		const userComment = await adminClient.comment.create({
+			data: { body: "By a user", authorEmail: user.email },
+		});
+		const anonymousComment = await adminClient.comment.create({
+			data: { body: "Anonymous", authorEmail: `test-${uuid()}@test.com` },
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Comment: {
+					readUserComments: {
+						description: "Read comments written by a user",
+						operation: "SELECT",
+						expression: (client: PrismaClient, row) => {
+							return client.user.findFirst({
+								where: {
+									email: row("authorEmail"),
+								},
+							});
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Comment.readUserComments, abilities.User.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const comments = await client.comment.findMany({
+			where: {
+				id: { in: [userComment.id, anonymousComment.id] },
+			},
+		});
+
+		expect(comments).toEqual([userComment]);
+	});
+
+	it("should resolve row references against the policy's model when the subselect queries a mapped table", async () => {
+		const role = `USER_${uuid()}`;
+		const title = `Discussed post ${uuid()}`;
+
+		const discussedPost = await adminClient.post.create({
+			data: { title },
+		});
+		const otherPost = await adminClient.post.create({
+			data: { title: `Other post ${uuid()}` },
+		});
+		await adminClient.comment.create({
+			data: {
+				body: title,
+				authorEmail: `test-${uuid()}@test.com`,
+				isPublic: true,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Post: {
+					readDiscussed: {
+						description:
+							"Read posts that have a public comment with their title",
+						operation: "SELECT",
+						expression: (client: PrismaClient, row) => {
+							return client.comment.findFirst({
+								where: {
+									body: row("title"),
+									isPublic: true,
+								},
+							});
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.readDiscussed, abilities.Comment.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const posts = await client.post.findMany({
+			where: {
+				id: { in: [discussedPost.id, otherPost.id] },
+			},
+		});
+
+		expect(posts.map(({ id }) => id)).toEqual([discussedPost.id]);
+	});
+
+	it("should support fields and masks on mapped columns", async () => {
+		const role = `USER_${uuid()}`;
+
+		const comment = await adminClient.comment.create({
+			data: { body: "Hello", authorEmail: "jane@example.com" },
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Comment: {
+					readMasked: {
+						description: "Read comments with masked authors",
+						operation: "SELECT",
+						expression: "true",
+						fields: ["id", "body", "authorEmail"],
+						mask: {
+							authorEmail: "partial",
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Comment.readMasked],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const result = await client.comment.findUnique({
+			where: { id: comment.id },
+			select: { id: true, body: true, authorEmail: true },
+		});
+
+		expect(result).toEqual({
+			id: comment.id,
+			body: "Hello",
+			authorEmail: "j***@example.com",
+		});
+
+		expect.assertions(2);
+
+		try {
+			await client.comment.findUnique({
+				where: { id: comment.id },
+			});
+		} catch (e) {
+			expect(e.allowedFields).toEqual({
+				SELECT: ["id", "body", "authorEmail"],
+			});
+		}
+	});
+});
@@ -0,0 +1,309 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+// Sets up a role that reads users with masked emails
+const setupMaskedClient = (role: string) =>
+	setup({
+		prisma: new PrismaClient(),
+		customAbilities: {
+			User: {
+				readMasked: {
+					description: "Read users with masked emails",
+					operation: "SELECT",
+					expression: "true",
+					mask: {
+						email: "partial",
+					},
+				},
+			},
+		},
+		getRoles(abilities) {
+			return {
+				[role]: [abilities.User.readMasked],
+			};
+		},
+		getContext: () => ({
+			role,
+		}),
+	});
+
+describe("masks", () => {
+	it("should mask the values of masked fields", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `jane-${uuid()}@example.com`,
+				name: "Jane",
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				User: {
+					readMasked: {
+						description: "Read users with masked personal data",
+						operation: "SELECT",
+						expression: "true",
+						mask: {
+							email: "partial",
+							name: "null",
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.User.readMasked],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const result = await client.user.findUnique({
+			where: {
+				id: user.id,
+			},
+		});
+
+		expect(result).toEqual({
+			...user,
+			email: "j***@example.com",
+			name: null,
+		});
+
+		const users = await client.user.findMany({
+			where: {
+				id: user.id,
+			},
+			select: {
+				email: true,
+			},
+		});
+
+		expect(users).toEqual([{ email: "j***@example.com" }]);
+	});
+
+	it("should mask fields with an SQL expression and in related records", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@example.com`,
+				name: "Jane",
+				posts: {
+					create: {
+						title: `Test post from ${role}`,
+					},
+				},
+			},
+			include: {
+				posts: true,
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				User: {
+					readMasked: {
+						description: "Read users with masked names",
+						operation: "SELECT",
+						expression: "true",
+						mask: {
+							name: "upper(name)",
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.User.readMasked, abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const post = await client.post.findUnique({
+			where: {
+				id: user.posts[0].id,
+			},
+			include: {
+				author: true,
+			},
+		});
+
+		expect(post?.author?.name).toBe("JANE");
+		expect(post?.title).toBe(`Test post from ${role}`);
+	});
+
+	it("should not mask fields if the role holds an unmasked ability", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@example.com`,
+				name: "Jane",
+			},
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				User: {
+					readMasked: {
+						description: "Read users with masked personal data",
+						operation: "SELECT",
+						expression: "true",
+						mask: {
+							email: "partial",
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.User.readMasked, abilities.User.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const result = await client.user.findUnique({
+			where: {
+				id: user.id,
+			},
+		});
+
+		expect(result?.email).toBe(user.email);
+	});
+
+	it("should mask records returned inside interactive and batch transactions", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `jane-${uuid()}@example.com`,
+			},
+		});
+
+		const client = await setupMaskedClient(role);
+
+		const interactive = await client.$transaction(async (tx) =>
+			tx.user.findUnique({
+				where: {
+					id: user.id,
+				},
+			}),
+		);
+
+		expect(interactive?.email).toBe("j***@example.com");
+
+		const [batch] = await client.$transaction([
+			client.user.findUnique({
+				where: {
+					id: user.id,
+				},
+			}),
+		]);
+
+		expect(batch?.email).toBe("j***@example.com");
+	});
+
+	it("should not allow masked fields to be grouped by or aggregated", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `jane-${uuid()}@example.com`,
+			},
+		});
+
+		const client = await setupMaskedClient(role);
+
+		await expect(
+			client.user.groupBy({
+				by: ["email"],
+				where: {
+					id: user.id,
+				},
+			}),
+		).rejects.toThrow("Masked fields can't be grouped by or aggregated");
+
+		await expect(
+			client.user.aggregate({
+				_max: {
+					email: true,
+				},
+			}),
+		).rejects.toThrow("Masked fields can't be grouped by or aggregated");
+
+		await expect(
+			client.$transaction(async (tx) =>
+				tx.user.aggregate({
+					_min: {
+						email: true,
+					},
+				}),
+			),
+		).rejects.toThrow("Masked fields can't be grouped by or aggregated");
+
+		// Counts don't reveal the values
+		const count = await client.user.aggregate({
+			where: {
+				id: user.id,
+			},
+			_count: {
+				email: true,
+			},
+		});
+
+		expect(count._count.email).toBe(1);
+	});
+
+	it("should only allow partial masks on String fields", async () => {
+		const role = `USER_${uuid()}`;
+
+		await expect(
+			setup({
+				prisma: new PrismaClient(),
+				customAbilities: {
+					User: {
+						readMasked: {
+							description: "Read users with masked creation dates",
+							operation: "SELECT",
+							expression: "true",
+							mask: {
+								createdAt: "partial",
+							},
+						},
+					},
+				},
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.User.readMasked],
+					};
+				},
+				getContext: () => ({
+					role,
+				}),
+			}),
+		).rejects.toThrow(
+			'Field "createdAt" in the mask of ability "readMasked" on User can\'t use a "partial" mask',
+		);
+	});
+});
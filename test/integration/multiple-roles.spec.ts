@@ -0,0 +1,126 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { createCompositeRoleName, setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("multiple roles", () => {
+	it("should allow the union of the abilities of every role", async () => {
+		const editor = `EDITOR_${uuid()}`;
+		const tagger = `TAGGER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[editor]: [abilities.Post.read, abilities.Post.create],
+					[tagger]: [abilities.Tag.read, abilities.Tag.create],
+				};
+			},
+			getContext: () => ({
+				roles: [editor, tagger],
+			}),
+		});
+
+		const post = await client.post.create({
+			data: {
+				title: `Test post from ${editor}`,
+			},
+		});
+
+		expect(post.id).toBeDefined();
+
+		const tag = await client.tag.create({
+			data: {
+				label: `Test tag from ${tagger}`,
+			},
+		});
+
+		expect(tag.id).toBeDefined();
+	});
+
+	it("should not allow abilities that none of the roles have", async () => {
+		const editor = `EDITOR_${uuid()}`;
+		const tagger = `TAGGER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[editor]: [abilities.Post.read, abilities.Post.create],
+					[tagger]: [abilities.Tag.read, abilities.Tag.create],
+				};
+			},
+			getContext: () => ({
+				roles: [editor, tagger],
+			}),
+		});
+
+		await expect(
+			client.item.create({
+				data: {
+					value: 1,
+				},
+			}),
+		).rejects.toThrow("You do not have permission to perform this action");
+	});
+
+	it("should use the same role regardless of the order of the roles", async () => {
+		const editor = `EDITOR_${uuid()}`;
+		const tagger = `TAGGER_${uuid()}`;
+
+		expect(createCompositeRoleName([editor, tagger])).toBe(
+			createCompositeRoleName([tagger, editor, editor]),
+		);
+	});
+
+	it("should clean up composite roles that are granted roles that are no longer defined", async () => {
+		const editor = `EDITOR_${uuid()}`;
+		const tagger = `TAGGER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[editor]: [abilities.Post.read],
+					[tagger]: [abilities.Tag.read],
+				};
+			},
+			getContext: () => ({
+				roles: [editor, tagger],
+			}),
+		});
+
+		await client.post.findMany();
+
+		const compositeRole = createCompositeRoleName([editor, tagger]);
+
+		const existing: unknown[] = await adminClient.$queryRawUnsafe(
+			`SELECT * FROM pg_catalog.pg_roles WHERE rolname = '${compositeRole}'`,
+		);
+
+		expect(existing).toHaveLength(1);
+
+		await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[editor]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				role: editor,
+			}),
+		});
+
+		const cleanedUp: unknown[] = await adminClient.$queryRawUnsafe(
+			`SELECT * FROM pg_catalog.pg_roles WHERE rolname = '${compositeRole}'`,
+		);
+
+		expect(cleanedUp).toHaveLength(0);
+	});
+});
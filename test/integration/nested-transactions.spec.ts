@@ -1,6 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import { v4 as uuid } from "uuid";
-import { setup } from "../../src";
+import { createRoleName, setup } from "../../src";
 
 // This function is setup to demonstrate the behaviour of nested transactions and rollbacks in Prisma.
 // This example is based on interactive transaction docs on the Prisma website:
@@ -46,7 +46,7 @@ async function transfer(
 }
 
 describe("nested transactions", () => {
-	it("is expected to NOT rollback transactions if the outer transaction fails", async () => {
+	it("should rollback transactions if the outer transaction fails", async () => {
 		const role = `USER_${uuid()}`;
 		const client = await setup({
 			prisma: new PrismaClient(),
@@ -83,15 +83,15 @@ describe("nested transactions", () => {
 			transfer(client as PrismaClient, email1, email2, 100),
 		).rejects.toThrow();
 
-		// Due to lack of nested transaction support, the first transfer is not rolled back
-		// and the "from" account is still debited
+		// Every query made with the transaction client runs inside a single Yates transaction,
+		// so the failed transfer is rolled back and the "from" account is not debited.
 		const result1 = await client.account.findUniqueOrThrow({
 			where: {
 				id: account1.id,
 			},
 		});
 
-		expect(result1.balance).toBe(-100);
+		expect(result1.balance).toBe(0);
 
 		const result2 = await client.account.findUniqueOrThrow({
 			where: {
@@ -102,6 +102,80 @@ describe("nested transactions", () => {
 		expect(result2.balance).toBe(200);
 	});
 
+	it("should apply RLS to queries made inside an interactive transaction", async () => {
+		const role = `USER_${uuid()}`;
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Account.read, abilities.Account.create],
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {},
+			}),
+		});
+
+		const email1 = `alice-${uuid()}@example.com`;
+		await client.account.create({
+			data: {
+				email: email1,
+				balance: 100,
+			},
+		});
+		const email2 = `bob-${uuid()}@example.com`;
+		await client.account.create({
+			data: {
+				email: email2,
+				balance: 100,
+			},
+		});
+
+		// The role is not allowed to update accounts, so the update inside the transaction will not find a row
+		await expect(
+			transfer(client as PrismaClient, email1, email2, 100),
+		).rejects.toThrow();
+
+		const result = await client.account.findUniqueOrThrow({
+			where: {
+				email: email1,
+			},
+		});
+
+		expect(result.balance).toBe(100);
+	});
+
+	it("should set the role and context once for the whole transaction", async () => {
+		const role = `USER_${uuid()}`;
+		const userId = uuid();
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(_abilities) {
+				return {
+					[role]: "*",
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {
+					"user.id": userId,
+				},
+			}),
+		});
+
+		const results = await client.$transaction(async (tx) => {
+			const currentRole: { current_user: string }[] =
+				await tx.$queryRaw`SELECT current_user`;
+			const currentSetting: { current_setting: string }[] =
+				await tx.$queryRaw`SELECT current_setting('user.id')`;
+
+			return [currentRole[0].current_user, currentSetting[0].current_setting];
+		});
+
+		expect(results).toEqual([createRoleName(role), userId]);
+	});
+
 	it("should rollback transactions if the outer transaction fails if you bypass yates", async () => {
 		const role = `USER_${uuid()}`;
 		const client = await setup({
@@ -156,3 +230,131 @@ describe("nested transactions", () => {
 		expect(result2.balance).toBe(200);
 	});
 });
+
+describe("batch transactions", () => {
+	it("should return the results of each operation in order", async () => {
+		const role = `USER_${uuid()}`;
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(_abilities) {
+				return {
+					[role]: "*",
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {},
+			}),
+		});
+
+		const title = `Test post from ${role}`;
+		const label = `Test tag from ${role}`;
+
+		const [post, tag] = await client.$transaction([
+			client.post.create({
+				data: {
+					title,
+				},
+			}),
+			client.tag.create({
+				data: {
+					label,
+				},
+			}),
+		]);
+
+		expect(post.title).toBe(title);
+		expect(tag.label).toBe(label);
+	});
+
+	it("should rollback every operation if one of them fails", async () => {
+		const role = `USER_${uuid()}`;
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(_abilities) {
+				return {
+					[role]: "*",
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {},
+			}),
+		});
+
+		const email = `alice-${uuid()}@example.com`;
+
+		await expect(
+			client.$transaction([
+				client.account.create({
+					data: {
+						email,
+						balance: 100,
+					},
+				}),
+				// This update fails because the account doesn't exist
+				client.account.update({
+					where: {
+						email: `bob-${uuid()}@example.com`,
+					},
+					data: {
+						balance: 100,
+					},
+				}),
+			]),
+		).rejects.toThrow();
+
+		const account = await client.account.findUnique({
+			where: {
+				email,
+			},
+		});
+
+		expect(account).toBeNull();
+	});
+
+	it("should apply RLS to every operation in the batch", async () => {
+		const role = `USER_${uuid()}`;
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [
+						abilities.Tag.read,
+						abilities.Tag.create,
+						abilities.Post.read,
+					],
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {},
+			}),
+		});
+
+		const label = `Test tag from ${role}`;
+
+		await expect(
+			client.$transaction([
+				client.tag.create({
+					data: {
+						label,
+					},
+				}),
+				client.post.create({
+					data: {
+						title: `Test post from ${role}`,
+					},
+				}),
+			]),
+		).rejects.toThrow("You do not have permission to perform this action");
+
+		const tags = await client.tag.findMany({
+			where: {
+				label,
+			},
+		});
+
+		expect(tags).toHaveLength(0);
+	});
+});
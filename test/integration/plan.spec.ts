@@ -0,0 +1,144 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import {
+	createAbilityName,
+	createRoleName,
+	createRoles,
+	plan,
+} from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+const roleExists = async (role: string) => {
+	const roles: unknown[] = await adminClient.$queryRawUnsafe(
+		"SELECT 1 FROM pg_catalog.pg_roles WHERE rolname = $1",
+		role,
+	);
+	return roles.length > 0;
+};
+
+describe("plan", () => {
+	it("should list the operations for new roles and abilities without applying them", async () => {
+		const prisma = new PrismaClient();
+		const role = `USER_${uuid()}`;
+		const slug = `customRead${uuid().replace(/-/g, "")}`;
+
+		const operations = await plan({
+			prisma,
+			customAbilities: {
+				Post: {
+					[slug]: {
+						description: "Custom read",
+						operation: "SELECT",
+						expression: "true",
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post[slug]],
+				};
+			},
+		});
+
+		const ability = createAbilityName("Post", slug);
+
+		expect(operations).toContainEqual(
+			expect.objectContaining({
+				type: "create_role",
+				target: createRoleName(role),
+			}),
+		);
+		expect(operations).toContainEqual(
+			expect.objectContaining({ type: "create_role", target: ability }),
+		);
+		expect(operations).toContainEqual(
+			expect.objectContaining({ type: "create_policy", target: ability }),
+		);
+		expect(operations).toContainEqual(
+			expect.objectContaining({
+				type: "grant",
+				target: createRoleName(role),
+				sql: `GRANT ${ability} TO ${createRoleName(role)}`,
+			}),
+		);
+
+		expect(await roleExists(createRoleName(role))).toBe(false);
+		expect(await roleExists(ability)).toBe(false);
+	});
+
+	it("should return no operations once the changes have been applied", async () => {
+		const prisma = new PrismaClient();
+		const role = `USER_${uuid()}`;
+
+		await createRoles({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read, abilities.Post.create],
+				};
+			},
+		});
+
+		const operations = await plan({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read, abilities.Post.create],
+				};
+			},
+		});
+
+		// Other tests share the database, so only the operations for this configuration are checked
+		const targets = [
+			createRoleName(role),
+			createAbilityName("Post", "read"),
+			createAbilityName("Post", "create"),
+		];
+		expect(operations.filter(({ target }) => targets.includes(target))).toEqual(
+			[],
+		);
+	});
+
+	it("should list the operations that change an existing role", async () => {
+		const prisma = new PrismaClient();
+		const role = `USER_${uuid()}`;
+
+		await createRoles({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		const operations = await plan({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.create],
+				};
+			},
+		});
+
+		expect(operations).toContainEqual({
+			type: "grant",
+			target: createRoleName(role),
+			sql: `GRANT ${createAbilityName("Post", "create")} TO ${createRoleName(
+				role,
+			)}`,
+		});
+		expect(operations).toContainEqual({
+			type: "revoke",
+			target: createRoleName(role),
+			sql: `REVOKE ${createAbilityName("Post", "read")} FROM ${createRoleName(
+				role,
+			)}`,
+		});
+	});
+});
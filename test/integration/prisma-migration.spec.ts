@@ -0,0 +1,154 @@
+import { tmpdir } from "os";
+import * as path from "path";
+import { PrismaClient } from "@prisma/client";
+import { mkdtemp, readFile } from "fs/promises";
+import { v4 as uuid } from "uuid";
+import {
+	YatesVerificationError,
+	compileMigration,
+	createAbilityName,
+	createRoleName,
+	setup,
+	writeMigration,
+} from "../../src";
+
+describe("prisma migrations", () => {
+	it("should compile abilities and role grants into a SQL script", async () => {
+		const role = `USER_${uuid()}`;
+		const slug = `customRead${uuid().replace(/-/g, "")}`;
+
+		const sql = await compileMigration({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Post: {
+					[slug]: {
+						description: "Custom read",
+						operation: "SELECT",
+						expression: (_client: PrismaClient, _row, context) => {
+							return {
+								title: context("post.title"),
+							};
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post[slug]],
+				};
+			},
+		});
+
+		const ability = createAbilityName("Post", slug);
+
+		expect(sql).toContain("CREATE TABLE IF NOT EXISTS _yates._yates_abilities");
+		expect(sql).toContain(`CREATE POLICY ${ability} ON "public"."Post"`);
+		expect(sql).toContain(`GRANT ${ability} TO ${createRoleName(role)};`);
+		// Client expressions are compiled to SQL
+		expect(sql).toContain("current_setting(");
+	});
+
+	it("should grant user roles only the table privileges they need", async () => {
+		const role = `USER_${uuid()}`;
+		const roleName = createRoleName(role);
+
+		const sql = await compileMigration({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Post: {
+					readTitle: {
+						description: "Read post titles",
+						operation: "SELECT",
+						expression: "true",
+						fields: ["id", "title"],
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.readTitle],
+				};
+			},
+		});
+
+		expect(sql).not.toContain(
+			`GRANT ALL ON ALL TABLES IN SCHEMA "public" TO ${roleName}`,
+		);
+		expect(sql).toContain(
+			`GRANT SELECT, INSERT, UPDATE, DELETE ON "public"."User" TO ${roleName};`,
+		);
+		expect(sql).toContain(
+			`REVOKE TRUNCATE, REFERENCES, TRIGGER ON "public"."User" FROM ${roleName};`,
+		);
+		// The column-restricted operation is left out of the table-level grant
+		expect(sql).toContain(
+			`GRANT INSERT, UPDATE, DELETE ON "public"."Post" TO ${roleName};`,
+		);
+		expect(sql).toContain(
+			`REVOKE SELECT, TRUNCATE, REFERENCES, TRIGGER ON "public"."Post" FROM ${roleName};`,
+		);
+		expect(sql).toContain(
+			`GRANT SELECT, INSERT, UPDATE, DELETE ON "public"."_PostToTag" TO ${roleName};`,
+		);
+		expect(sql).toContain(`GRANT USAGE ON SCHEMA "billing" TO ${roleName};`);
+	});
+
+	it("should write the script to the migrations directory", async () => {
+		const migrationsDirectory = await mkdtemp(path.join(tmpdir(), "yates-"));
+		const role = `USER_${uuid()}`;
+
+		const file = await writeMigration({
+			prisma: new PrismaClient(),
+			migrationsDirectory,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		expect(file).toMatch(/[0-9]{14}_yates\/migration\.sql$/);
+		expect(await readFile(file, "utf8")).toContain(createRoleName(role));
+	});
+
+	it("should throw in verify mode if the database doesn't match the configuration", async () => {
+		const role = `USER_${uuid()}`;
+		const prisma = new PrismaClient();
+
+		await expect(
+			setup({
+				prisma,
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				getContext: () => null,
+				mode: "verify",
+			}),
+		).rejects.toThrow(YatesVerificationError);
+
+		await setup({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => null,
+		});
+
+		await expect(
+			setup({
+				prisma,
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				getContext: () => null,
+				mode: "verify",
+			}),
+		).resolves.toBeDefined();
+	});
+});
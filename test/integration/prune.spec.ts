@@ -0,0 +1,138 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { createAbilityName, createRoleName, createRoles } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+const createOrphans = async (prisma: PrismaClient) => {
+	const role = `USER_${uuid()}`;
+	const slug = `customRead${uuid().replace(/-/g, "")}`;
+
+	await createRoles({
+		prisma,
+		customAbilities: {
+			Post: {
+				[slug]: {
+					description: "Custom read",
+					operation: "SELECT",
+					expression: "true",
+				},
+			},
+		},
+		getRoles(abilities) {
+			return {
+				[role]: [abilities.Post[slug]],
+			};
+		},
+	});
+
+	return {
+		role: createRoleName(role),
+		ability: createAbilityName("Post", slug),
+	};
+};
+
+const roleExists = async (role: string) => {
+	const roles: unknown[] = await adminClient.$queryRawUnsafe(
+		"SELECT 1 FROM pg_catalog.pg_roles WHERE rolname = $1",
+		role,
+	);
+	return roles.length > 0;
+};
+
+const policyExists = async (policy: string) => {
+	const policies: unknown[] = await adminClient.$queryRawUnsafe(
+		"SELECT 1 FROM pg_catalog.pg_policies WHERE policyname = $1",
+		policy,
+	);
+	return policies.length > 0;
+};
+
+const abilityExists = async (policy: string) => {
+	const abilities: unknown[] = await adminClient.$queryRawUnsafe(
+		"SELECT 1 FROM _yates._yates_abilities WHERE ability_policy_name = $1",
+		policy,
+	);
+	return abilities.length > 0;
+};
+
+describe("prune", () => {
+	it("should not look for orphans by default", async () => {
+		const prisma = new PrismaClient();
+		const orphan = await createOrphans(prisma);
+
+		const role = `USER_${uuid()}`;
+		const { orphans } = await createRoles({
+			prisma,
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		expect(orphans).toBeUndefined();
+		expect(await roleExists(orphan.role)).toBe(true);
+		expect(await roleExists(orphan.ability)).toBe(true);
+	});
+
+	it("should report orphans without dropping them", async () => {
+		const prisma = new PrismaClient();
+		const orphan = await createOrphans(prisma);
+
+		const role = `USER_${uuid()}`;
+		const { orphans } = await createRoles({
+			prisma,
+			prune: "report",
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		expect(orphans?.roles).toContain(orphan.role);
+		expect(orphans?.roles).toContain(orphan.ability);
+		expect(orphans?.roles).not.toContain(createRoleName(role));
+		expect(orphans?.roles).not.toContain(createAbilityName("Post", "read"));
+		expect(orphans?.policies.map(({ policy }) => policy)).toContain(
+			orphan.ability,
+		);
+		expect(orphans?.abilities).toContain(orphan.ability);
+
+		expect(await roleExists(orphan.role)).toBe(true);
+		expect(await roleExists(orphan.ability)).toBe(true);
+		expect(await policyExists(orphan.ability)).toBe(true);
+		expect(await abilityExists(orphan.ability)).toBe(true);
+	});
+
+	it("should drop orphaned roles, policies and abilities", async () => {
+		const prisma = new PrismaClient();
+		const orphan = await createOrphans(prisma);
+
+		const role = `USER_${uuid()}`;
+		await createRoles({
+			prisma,
+			prune: "apply",
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+		});
+
+		expect(await roleExists(orphan.role)).toBe(false);
+		expect(await roleExists(orphan.ability)).toBe(false);
+		expect(await policyExists(orphan.ability)).toBe(false);
+		expect(await abilityExists(orphan.ability)).toBe(false);
+
+		// The configured roles are kept
+		expect(await roleExists(createRoleName(role))).toBe(true);
+		expect(await roleExists(createAbilityName("Post", "read"))).toBe(true);
+		expect(await policyExists(createAbilityName("Post", "read"))).toBe(true);
+	});
+});
@@ -1,6 +1,6 @@
 import { PrismaClient, User } from "@prisma/client";
 import { v4 as uuid } from "uuid";
-import { setup } from "../../src";
+import { createRoleName, setup } from "../../src";
 
 let adminClient: PrismaClient;
 
@@ -39,6 +39,97 @@ describe("rbac", () => {
 			expect(users).toHaveLength(1);
 			expect(users[0].id).toBe(user.id);
 		});
+		it("should apply RBAC to prisma.$queryRaw() if raw queries are enforced", async () => {
+			const initial = new PrismaClient();
+
+			const user = await initial.user.create({
+				data: {
+					email: `test-${uuid()}@test.com`,
+				},
+			});
+
+			const role = `USER_${uuid()}`;
+
+			const client = await setup({
+				prisma: initial,
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				getContext: () => ({
+					role,
+				}),
+				options: {
+					rawQueries: "enforce",
+				},
+			});
+
+			const users: User[] =
+				await client.$queryRaw`SELECT * FROM "User" WHERE "id" = ${user.id}`;
+
+			expect(users).toHaveLength(0);
+		});
+
+		it("should apply the context to prisma.$queryRawUnsafe() if raw queries are enforced", async () => {
+			const initial = new PrismaClient();
+
+			const role = `USER_${uuid()}`;
+			const userId = uuid();
+
+			const client = await setup({
+				prisma: initial,
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				getContext: () => ({
+					role,
+					context: {
+						"user.id": userId,
+					},
+				}),
+				options: {
+					rawQueries: "enforce",
+				},
+			});
+
+			const result: { current_user: string; current_setting: string }[] =
+				await client.$queryRawUnsafe(
+					"SELECT current_user, current_setting('user.id')",
+				);
+
+			expect(result[0].current_user).toBe(createRoleName(role));
+			expect(result[0].current_setting).toBe(userId);
+		});
+
+		it("should normalize permission errors from prisma.$executeRaw() if raw queries are enforced", async () => {
+			const initial = new PrismaClient();
+
+			const role = `USER_${uuid()}`;
+
+			const client = await setup({
+				prisma: initial,
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Post.read],
+					};
+				},
+				getContext: () => ({
+					role,
+				}),
+				options: {
+					rawQueries: "enforce",
+				},
+			});
+
+			await expect(
+				client.$executeRaw`INSERT INTO "Post" ("title", "updatedAt") VALUES (${`Test post from ${role}`}, now())`,
+			).rejects.toThrow(
+				"You do not have permission to perform this action: $executeRaw(...)",
+			);
+		});
 	});
 	describe("CREATE", () => {
 		it("should be able to allow a role to create a resource", async () => {
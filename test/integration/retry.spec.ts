@@ -0,0 +1,273 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { createRoleName, setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+// Returns a function that resolves once it has been called `count` times
+const createBarrier = (count: number) => {
+	let arrived = 0;
+	let release: () => void;
+	const released = new Promise<void>((resolve) => {
+		release = resolve;
+	});
+	return async () => {
+		arrived++;
+		if (arrived === count) {
+			release();
+		}
+		await released;
+	};
+};
+
+const setupClient = (
+	role: string,
+	options: Parameters<typeof setup>[0]["options"],
+) =>
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				[role]: [abilities.Item.read, abilities.Item.update],
+			};
+		},
+		getContext: () => ({
+			role,
+		}),
+		options,
+	});
+
+// Runs two transactions that read and then update the same row, forcing a serialization failure in one of them
+const runConflictingTransactions = async (
+	client: Awaited<ReturnType<typeof setupClient>>,
+	id: number,
+	onAttempt?: (tx: Prisma.TransactionClient) => Promise<void>,
+) => {
+	const barrier = createBarrier(2);
+	let attempts = 0;
+
+	const increment = () =>
+		client.$transaction(async (tx) => {
+			attempts++;
+			await onAttempt?.(tx);
+			const item = await tx.item.findUniqueOrThrow({
+				where: {
+					id,
+				},
+			});
+			// Only the first attempt of each transaction waits, so that both read the row before either updates it
+			if (attempts <= 2) {
+				await barrier();
+			}
+			await tx.item.update({
+				where: {
+					id,
+				},
+				data: {
+					stock: item.stock + 1,
+				},
+			});
+		});
+
+	const results = await Promise.allSettled([increment(), increment()]);
+
+	return { results, attempts };
+};
+
+describe("retry", () => {
+	it("should fail on a serialization conflict if retries are not enabled", async () => {
+		const role = `USER_${uuid()}`;
+		const item = await adminClient.item.create({
+			data: {
+				value: 1,
+			},
+		});
+
+		const client = await setupClient(role, {
+			isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+		});
+
+		const { results, attempts } = await runConflictingTransactions(
+			client,
+			item.id,
+		);
+
+		expect(attempts).toBe(2);
+		expect(results.map((result) => result.status).sort()).toEqual([
+			"fulfilled",
+			"rejected",
+		]);
+
+		const updated = await adminClient.item.findUniqueOrThrow({
+			where: {
+				id: item.id,
+			},
+		});
+		expect(updated.stock).toBe(1);
+	});
+
+	it("should retry transactions that fail on a serialization conflict", async () => {
+		const role = `USER_${uuid()}`;
+		const item = await adminClient.item.create({
+			data: {
+				value: 1,
+			},
+		});
+
+		const client = await setupClient(role, {
+			isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+			retry: {
+				maxAttempts: 3,
+				backoff: 10,
+			},
+		});
+
+		const { results, attempts } = await runConflictingTransactions(
+			client,
+			item.id,
+		);
+
+		expect(attempts).toBe(3);
+		expect(results.map((result) => result.status)).toEqual([
+			"fulfilled",
+			"fulfilled",
+		]);
+
+		const updated = await adminClient.item.findUniqueOrThrow({
+			where: {
+				id: item.id,
+			},
+		});
+		expect(updated.stock).toBe(2);
+	});
+
+	it("should only retry the codes in a custom codes list", async () => {
+		const role = `USER_${uuid()}`;
+		const item = await adminClient.item.create({
+			data: {
+				value: 1,
+			},
+		});
+
+		// Serialization failures are reported as P2034, which isn't in the list
+		const client = await setupClient(role, {
+			isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+			retry: {
+				maxAttempts: 3,
+				backoff: 10,
+				codes: ["40P01"],
+			},
+		});
+
+		const { results, attempts } = await runConflictingTransactions(
+			client,
+			item.id,
+		);
+
+		expect(attempts).toBe(2);
+		expect(results.map((result) => result.status).sort()).toEqual([
+			"fulfilled",
+			"rejected",
+		]);
+	});
+
+	it("should set the role and context again on every attempt", async () => {
+		const role = `USER_${uuid()}`;
+		const item = await adminClient.item.create({
+			data: {
+				value: 1,
+			},
+		});
+
+		const client = await setupClient(role, {
+			isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+			retry: {
+				backoff: () => 10,
+			},
+		});
+
+		const roles: string[] = [];
+
+		const { attempts } = await runConflictingTransactions(
+			client,
+			item.id,
+			async (tx) => {
+				const [{ role: currentRole }]: { role: string }[] =
+					await tx.$queryRaw`SELECT current_setting('role') AS role`;
+				roles.push(currentRole);
+			},
+		);
+
+		expect(attempts).toBe(3);
+		expect(roles).toEqual([
+			createRoleName(role),
+			createRoleName(role),
+			createRoleName(role),
+		]);
+	});
+
+	it("should run the queries of a batch transaction again when it is retried", async () => {
+		const role = `USER_${uuid()}`;
+		const item = await adminClient.item.create({
+			data: {
+				value: 1,
+			},
+		});
+		// Sequence values aren't rolled back, so the sequence counts the attempts
+		const sequence = `yates_test_${uuid().replace(/-/g, "_")}`;
+		await adminClient.$executeRawUnsafe(`CREATE SEQUENCE ${sequence}`);
+		await adminClient.$executeRawUnsafe(
+			`GRANT USAGE ON SEQUENCE ${sequence} TO PUBLIC`,
+		);
+
+		const client = await setupClient(role, {
+			retry: {
+				backoff: 10,
+			},
+		});
+
+		const [updated, count] = await client.$transaction([
+			client.item.update({
+				where: {
+					id: item.id,
+				},
+				data: {
+					stock: {
+						increment: 1,
+					},
+				},
+			}),
+			// Fails with a serialization failure on the first attempt only
+			client.$executeRawUnsafe(`
+				DO $$
+				BEGIN
+					IF nextval('${sequence}') = 1 THEN
+						RAISE EXCEPTION 'Forced serialization failure' USING ERRCODE = '40001';
+					END IF;
+				END
+				$$;
+			`),
+		]);
+
+		expect(updated.stock).toBe(1);
+		expect(count).toBe(0);
+
+		const [{ attempts }]: { attempts: bigint }[] =
+			await adminClient.$queryRawUnsafe(
+				`SELECT last_value AS attempts FROM ${sequence}`,
+			);
+		expect(Number(attempts)).toBe(2);
+
+		// The first attempt was rolled back, so the update must have been run again for the row to be updated
+		const stored = await adminClient.item.findUniqueOrThrow({
+			where: {
+				id: item.id,
+			},
+		});
+		expect(stored.stock).toBe(1);
+	});
+});
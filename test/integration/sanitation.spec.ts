@@ -184,6 +184,29 @@ describe("sanitation", () => {
 		);
 	});
 
+	it("should not allow the context to overwrite the Yates role setting", async () => {
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {
+					"yates.role": "ADMIN",
+				},
+			}),
+		});
+
+		await expect(client.post.findMany()).rejects.toThrow(
+			'Context variable "yates.role" is reserved',
+		);
+	});
+
 	it("should sanitize custom context values", async () => {
 		const initial = new PrismaClient();
 
@@ -0,0 +1,159 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { setup } from "../../src";
+
+let adminClient: PrismaClient;
+
+beforeAll(async () => {
+	adminClient = new PrismaClient();
+});
+
+describe("schemas", () => {
+	it("should apply abilities to models outside the public schema", async () => {
+		const role = `USER_${uuid()}`;
+		const email = `test-${uuid()}@test.com`;
+
+		const ownInvoice = await adminClient.invoice.create({
+			data: { email, amount: 100 },
+		});
+		const otherInvoice = await adminClient.invoice.create({
+			data: { email: `test-${uuid()}@test.com`, amount: 200 },
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Invoice: {
+					readOwn: {
+						description: "Read own invoices",
+						operation: "SELECT",
+						expression: (_client: PrismaClient, _row, context) => {
+							return {
+								email: context("user.email"),
+							};
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Invoice.readOwn, abilities.Invoice.create],
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {
+					"user.email": email,
+				},
+			}),
+		});
+
+		const invoices = await client.invoice.findMany({
+			where: {
+				id: { in: [ownInvoice.id, otherInvoice.id] },
+			},
+		});
+
+		expect(invoices).toEqual([ownInvoice]);
+
+		const created = await client.invoice.create({
+			data: { email, amount: 300 },
+		});
+
+		expect(created.amount).toBe(300);
+	});
+
+	it("should qualify row references in client expressions with the schema of the model", async () => {
+		const role = `USER_${uuid()}`;
+
+		const user = await adminClient.user.create({
+			data: {
+				email: `test-${uuid()}@test.com`,
+			},
+		});
+		const userInvoice = await adminClient.invoice.create({
+			data: { email: user.email },
+		});
+		const orphanInvoice = await adminClient.invoice.create({
+			data: { email: `test-${uuid()}@test.com` },
+		});
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			customAbilities: {
+				Invoice: {
+					readUserInvoices: {
+						description: "Read invoices that belong to a user",
+						operation: "SELECT",
+						expression: (client: PrismaClient, row) => {
+							return client.user.findFirst({
+								where: {
+									email: row("email"),
+								},
+							});
+						},
+					},
+				},
+			},
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Invoice.readUserInvoices, abilities.User.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+		});
+
+		const invoices = await client.invoice.findMany({
+			where: {
+				id: { in: [userInvoice.id, orphanInvoice.id] },
+			},
+		});
+
+		expect(invoices).toEqual([userInvoice]);
+	});
+
+	it("should ignore tables with the same name in schemas that the models don't use", async () => {
+		const role = `USER_${uuid()}`;
+		const schema = `yates_test_${uuid().replace(/-/g, "_")}`;
+
+		const invoice = await adminClient.invoice.create({
+			data: { email: `test-${uuid()}@test.com`, amount: 100 },
+		});
+		const post = await adminClient.post.create({
+			data: { title: `Test post from ${role}` },
+		});
+
+		await adminClient.$executeRawUnsafe(`CREATE SCHEMA "${schema}"`);
+		await adminClient.$executeRawUnsafe(
+			`CREATE TABLE "${schema}"."Invoice" (id SERIAL PRIMARY KEY)`,
+		);
+		await adminClient.$executeRawUnsafe(
+			`CREATE TABLE "${schema}"."Post" (id SERIAL PRIMARY KEY)`,
+		);
+
+		try {
+			const client = await setup({
+				prisma: new PrismaClient(),
+				getRoles(abilities) {
+					return {
+						[role]: [abilities.Invoice.read, abilities.Post.read],
+					};
+				},
+				getContext: () => ({
+					role,
+				}),
+			});
+
+			await expect(
+				client.invoice.findUnique({ where: { id: invoice.id } }),
+			).resolves.toEqual(invoice);
+			await expect(
+				client.post.findUnique({ where: { id: post.id } }),
+			).resolves.toEqual(post);
+		} finally {
+			await adminClient.$executeRawUnsafe(`DROP SCHEMA "${schema}" CASCADE`);
+		}
+	});
+});
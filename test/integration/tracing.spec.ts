@@ -0,0 +1,117 @@
+import { PrismaClient } from "@prisma/client";
+import { v4 as uuid } from "uuid";
+import { InMemoryTracer, setup } from "../../src";
+
+describe("tracing", () => {
+	it("should emit spans for each setup phase", async () => {
+		const tracer = new InMemoryTracer();
+		const role = `USER_${uuid()}`;
+
+		await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => null,
+			options: {
+				tracer,
+			},
+		});
+
+		const names = tracer.spans.map((span) => span.name);
+
+		expect(names).toEqual([
+			"yates.setup",
+			"yates.setup.ability_table",
+			"yates.setup.policies",
+			"yates.setup.roles",
+			"yates.setup.composite_cleanup",
+		]);
+
+		for (const span of tracer.spans) {
+			expect(span.endTime).toBeDefined();
+		}
+	});
+
+	it("should emit spans for the transaction, prelude and query", async () => {
+		const tracer = new InMemoryTracer();
+		const role = `USER_${uuid()}`;
+		const userId = uuid();
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				role,
+				context: {
+					"user.id": userId,
+				},
+			}),
+			options: {
+				tracer,
+			},
+		});
+
+		tracer.reset();
+
+		await client.post.findMany();
+
+		expect(tracer.spans.map((span) => span.name)).toEqual([
+			"yates.transaction.acquire",
+			"yates.prelude",
+			"yates.query",
+		]);
+
+		for (const span of tracer.spans) {
+			expect(span.attributes).toEqual({
+				"yates.role": role,
+				"yates.model": "Post",
+				"yates.operation": "findMany",
+				"yates.context_keys": ["user.id"],
+			});
+			expect(span.endTime).toBeDefined();
+			// Context values should never be added to spans
+			expect(JSON.stringify(span.attributes)).not.toContain(userId);
+		}
+	});
+
+	it("should record exceptions on the query span", async () => {
+		const tracer = new InMemoryTracer();
+		const role = `USER_${uuid()}`;
+
+		const client = await setup({
+			prisma: new PrismaClient(),
+			getRoles(abilities) {
+				return {
+					[role]: [abilities.Post.read],
+				};
+			},
+			getContext: () => ({
+				role,
+			}),
+			options: {
+				tracer,
+			},
+		});
+
+		tracer.reset();
+
+		await expect(
+			client.post.create({
+				data: {
+					title: `Test post from ${role}`,
+				},
+			}),
+		).rejects.toThrow();
+
+		const querySpan = tracer.spans.find((span) => span.name === "yates.query");
+
+		expect(querySpan?.exceptions).toHaveLength(1);
+	});
+});
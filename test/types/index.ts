@@ -1,6 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import _ from "lodash";
-import { setup } from "../../src";
+import { setup, yatesExtension } from "../../src";
 
 const run = async () => {
 	// it should error if an invalid model is used
@@ -132,4 +132,227 @@ const run = async () => {
 			},
 		}),
 	});
+
+	// It should accept a synchronous getContext function
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				User: [abilities.User.read],
+			};
+		},
+		getContext: () => ({
+			role: "User",
+			context: {
+				"user.id": "123",
+			},
+		}),
+	});
+
+	// It should accept an async getContext function
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				User: [abilities.User.read],
+			};
+		},
+		getContext: async () => ({
+			role: "User",
+			context: {
+				"user.id": "123",
+			},
+		}),
+	});
+
+	// It should accept an async getContext function that returns null
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				User: [abilities.User.read],
+			};
+		},
+		getContext: async () => null,
+	});
+
+	// It should error if an async getContext function returns an invalid context
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				User: [abilities.User.read],
+			};
+		},
+		// @ts-expect-error
+		getContext: async () => ({
+			context: {
+				"user.id": "123",
+			},
+		}),
+	});
+
+	// It should accept multiple roles
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				User: [abilities.User.read],
+				Admin: "*",
+			};
+		},
+		getContext: () => ({
+			roles: ["User", "Admin"],
+		}),
+	});
+
+	// It should error if both a single role and multiple roles are provided
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				User: [abilities.User.read],
+				Admin: "*",
+			};
+		},
+		getContext: () => ({
+			role: "User",
+			// @ts-expect-error
+			roles: ["User", "Admin"],
+		}),
+	});
+
+	// It should accept an anonymous context
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				Anonymous: [abilities.Post.read],
+			};
+		},
+		anonymousRole: "Anonymous",
+		getContext: () => ({
+			anonymous: true,
+		}),
+	});
+
+	// It should error if both an anonymous context and a role are provided
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				Anonymous: [abilities.Post.read],
+			};
+		},
+		anonymousRole: "Anonymous",
+		getContext: () => ({
+			anonymous: true,
+			// @ts-expect-error
+			role: "User",
+		}),
+	});
+
+	// It should accept a bypass context
+	setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				User: [abilities.User.read],
+			};
+		},
+		bypass: {
+			"billing-worker": {
+				reason: "Reconciles invoices",
+				mode: "role",
+				audit: true,
+			},
+		},
+		getContext: () => ({
+			bypass: "billing-worker",
+		}),
+	});
+
+	// It should accept fields on abilities
+	setup({
+		prisma: new PrismaClient(),
+		customAbilities: {
+			User: {
+				readWithoutEmail: {
+					description: "Read users without their email",
+					operation: "SELECT",
+					expression: "true",
+					fields: ["id", "name"],
+				},
+			},
+		},
+		getRoles(abilities) {
+			return {
+				User: [abilities.User.readWithoutEmail],
+			};
+		},
+		getContext: () => null,
+	});
+
+	// It should error if an ability has fields that don't exist on the model
+	setup({
+		prisma: new PrismaClient(),
+		customAbilities: {
+			User: {
+				readWithoutEmail: {
+					description: "Read users without their email",
+					operation: "SELECT",
+					expression: "true",
+					// @ts-expect-error
+					fields: ["id", "title"],
+				},
+			},
+		},
+		getRoles(_abilities) {
+			return {
+				User: "*",
+			};
+		},
+		getContext: () => null,
+	});
+
+	// It should compose with other extensions
+	const extended = new PrismaClient()
+		.$extends({
+			query: {
+				$allModels: {
+					$allOperations({ args, query }) {
+						return query(args);
+					},
+				},
+			},
+		})
+		.$extends(
+			yatesExtension({
+				getContext: () => ({
+					role: "User",
+				}),
+			}),
+		);
+
+	extended.$can("Post", "SELECT", 1);
+	extended.$auditLog({ model: "Post" });
+	extended.$as({ role: "User" }).post.findMany();
+
+	// It should allow roles to extend other roles
+	await setup({
+		prisma: new PrismaClient(),
+		getRoles(abilities) {
+			return {
+				USER: [abilities.Post.read],
+				ADMIN: {
+					extends: ["USER"],
+					abilities: [abilities.Post.create, abilities.Post.update],
+				},
+				SUPER_ADMIN: {
+					extends: ["ADMIN"],
+				},
+			};
+		},
+		getContext: () => null,
+	});
 };